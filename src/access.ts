@@ -0,0 +1,204 @@
+/**
+ * Access control for the chat server.
+ *
+ * Per domain:
+ *   - allowedOrigins: browser requests must come from a listed origin
+ *   - publishableKeys: browser requests must carry one in X-RagChat-Key
+ *   - secretKeys: server-to-server requests send one as a Bearer token and
+ *     skip the origin, key and per-client checks
+ *   - rateLimit: token buckets per client IP and per session, and daily
+ *     quotas per IP and for the whole domain
+ *
+ * Buckets and quotas are kept in memory, so they reset when the server
+ * restarts. Client IPs come from the socket, or from X-Forwarded-For when
+ * RAGCHAT_TRUST_PROXY=1 (behind a reverse proxy).
+ */
+
+import type * as http from "http";
+import { randomBytes, timingSafeEqual } from "crypto";
+import type { DomainConfig } from "./config";
+
+export interface AccessDenied {
+  status: 401 | 403 | 429;
+  error: string;
+  /** Seconds until a rate-limited client may retry */
+  retryAfter?: number;
+}
+
+export interface AccessGrant {
+  /** Authenticated with a secret key */
+  trusted: boolean;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedMs: number;
+}
+
+const buckets = new Map<string, Bucket>();
+const dailyCounts = new Map<string, number>();
+let countsDay = "";
+
+/** Buckets are swept of idle entries once the map grows past this */
+const MAX_BUCKETS = 10_000;
+
+/** Generate a new publishable (pk_) or secret (sk_) key */
+export function generateKey(kind: "publishable" | "secret"): string {
+  return `${kind === "publishable" ? "pk" : "sk"}_${randomBytes(18).toString("base64url")}`;
+}
+
+/** Constant-time membership test, so keys can't be guessed byte by byte */
+function matchesKey(candidate: string, keys: string[]): boolean {
+  const given = Buffer.from(candidate);
+  return keys.some((key) => {
+    const expected = Buffer.from(key);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  });
+}
+
+/**
+ * Whether an origin matches an allowlist entry. Entries are full origins
+ * ("https://mysite.com"), bare hostnames ("mysite.com", any scheme and
+ * port) or wildcard subdomains ("*.mysite.com").
+ */
+function originAllowed(origin: string, allowed: string[]): boolean {
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+  const hostname = url.hostname.toLowerCase();
+  return allowed.some((entry) => {
+    const pattern = entry.trim().toLowerCase().replace(/\/+$/, "");
+    if (pattern === "*") return true;
+    if (pattern.includes("://")) return pattern === url.origin.toLowerCase();
+    if (pattern.startsWith("*.")) return hostname.endsWith(pattern.slice(1));
+    return hostname === pattern;
+  });
+}
+
+function bearerToken(req: http.IncomingMessage): string | null {
+  const match = (req.headers.authorization || "").match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/** The client's IP address */
+export function clientIp(req: http.IncomingMessage): string {
+  if (process.env.RAGCHAT_TRUST_PROXY === "1") {
+    const forwarded = req.headers["x-forwarded-for"];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(",")[0]?.trim();
+    if (first) return first;
+  }
+  return req.socket.remoteAddress || "unknown";
+}
+
+/** Check the request's secret key, origin and publishable key against the domain's settings */
+export function authorize(
+  config: DomainConfig,
+  req: http.IncomingMessage,
+): AccessGrant | AccessDenied {
+  const bearer = bearerToken(req);
+  if (bearer) {
+    if (config.secretKeys?.length && matchesKey(bearer, config.secretKeys)) return { trusted: true };
+    return { status: 401, error: "Invalid API key" };
+  }
+
+  if (config.allowedOrigins?.length) {
+    const origin = req.headers.origin;
+    if (!origin || !originAllowed(origin, config.allowedOrigins)) {
+      return { status: 403, error: "This site is not allowed to use this chat" };
+    }
+  }
+
+  if (config.publishableKeys?.length) {
+    const key = req.headers["x-ragchat-key"];
+    if (typeof key !== "string" || !key) return { status: 401, error: "Missing API key" };
+    if (!matchesKey(key, config.publishableKeys)) return { status: 401, error: "Invalid API key" };
+  }
+
+  return { trusted: false };
+}
+
+/** Take a token from a bucket. Returns seconds to wait if it is empty. */
+function take(key: string, perMinute: number, burst: number): number {
+  const now = Date.now();
+  const bucket = buckets.get(key) || { tokens: burst, updatedMs: now };
+  bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedMs) / 60_000) * perMinute);
+  bucket.updatedMs = now;
+  buckets.set(key, bucket);
+
+  if (bucket.tokens < 1) return Math.ceil(((1 - bucket.tokens) / perMinute) * 60);
+  bucket.tokens -= 1;
+  return 0;
+}
+
+/** Drop buckets idle long enough to have refilled completely */
+function sweepBuckets(): void {
+  if (buckets.size <= MAX_BUCKETS) return;
+  const cutoff = Date.now() - 60 * 60_000;
+  for (const [key, bucket] of buckets) {
+    if (bucket.updatedMs < cutoff) buckets.delete(key);
+  }
+}
+
+/** Count one use against a daily quota. Returns false once it is used up. */
+function countDaily(key: string, limit: number | null): boolean {
+  if (limit === null) return true;
+  const used = dailyCounts.get(key) || 0;
+  if (used >= limit) return false;
+  dailyCounts.set(key, used + 1);
+  return true;
+}
+
+function secondsUntilMidnightUtc(): number {
+  const now = new Date();
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
+
+/**
+ * Spend one chat message from the domain's rate limits and quotas.
+ * Trusted (secret-key) clients only count against the domain's daily total.
+ */
+export function consumeRateLimit(
+  domain: string,
+  config: DomainConfig,
+  client: { ip: string; sessionId?: string; trusted: boolean },
+): AccessDenied | null {
+  const today = new Date().toISOString().slice(0, 10);
+  if (today !== countsDay) {
+    countsDay = today;
+    dailyCounts.clear();
+  }
+  sweepBuckets();
+
+  const limits = config.rateLimit;
+  if (!client.trusted) {
+    const wait = Math.max(
+      take(`${domain}|ip|${client.ip}`, limits.ipPerMinute, limits.ipBurst),
+      client.sessionId
+        ? take(`${domain}|session|${client.sessionId}`, limits.sessionPerMinute, limits.sessionBurst)
+        : 0,
+    );
+    if (wait > 0) {
+      return { status: 429, error: "Too many messages. Please wait a moment.", retryAfter: wait };
+    }
+    if (!countDaily(`${domain}|ip|${client.ip}`, limits.dailyPerIp)) {
+      return {
+        status: 429,
+        error: "Daily message limit reached. Please try again tomorrow.",
+        retryAfter: secondsUntilMidnightUtc(),
+      };
+    }
+  }
+
+  if (!countDaily(`${domain}|total`, limits.dailyTotal)) {
+    return {
+      status: 429,
+      error: "This chat has reached its daily limit. Please try again tomorrow.",
+      retryAfter: secondsUntilMidnightUtc(),
+    };
+  }
+  return null;
+}
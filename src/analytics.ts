@@ -0,0 +1,248 @@
+/**
+ * Chat analytics.
+ *
+ * Every chat exchange is appended to analytics/YYYY-MM-DD.jsonl under the
+ * domain directory. Day files older than the domain's analyticsRetentionDays
+ * are deleted as new exchanges are logged. Summaries are computed on demand
+ * from the day files that overlap the requested time range.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { domainSubdir } from "./vector-store";
+import type { GuardReason } from "./guardrails";
+
+export interface ExchangeRecord {
+  at: string;
+  sessionId?: string;
+  /** Id of the reply, for joining with visitor feedback */
+  messageId?: string;
+  query: string;
+  /** What retrieval searched for, when the query was rewritten */
+  searchQuery?: string;
+  /** Guardrail outcome, when a message was blocked or flagged */
+  guard?: { action: "blocked" | "flagged"; reason: GuardReason; detail?: string };
+  /** Answered with the domain's fallback answer (low retrieval confidence) */
+  fallback?: boolean;
+  /** Retrieved documents, best first, with their vector similarity where vector search found them */
+  results: Array<{ id: string; score: number; similarity?: number }>;
+  /**
+   * Nothing relevant was retrieved: no document above minScore by vector
+   * similarity (see RagContext.miss). Logs from older versions lack it.
+   */
+  miss?: boolean;
+  replyChars: number;
+  latencyMs: number;
+  provider?: string;
+  model?: string;
+  stream: boolean;
+  error?: string;
+}
+
+export interface AnalyticsRange {
+  since: Date;
+  until: Date;
+}
+
+export interface AnalyticsSummary {
+  range: AnalyticsRange;
+  exchanges: number;
+  errors: number;
+  misses: number;
+  /** Messages answered with a guardrail's canned reply */
+  blocked: { injection: number; offTopic: number };
+  /** Messages answered with the fallback answer instead of the model */
+  fallbacks: number;
+  topQuestions: Array<{ query: string; count: number }>;
+  topMisses: Array<{ query: string; count: number }>;
+  topErrors: Array<{ error: string; count: number }>;
+  topBlocked: Array<{ query: string; reason: GuardReason; count: number }>;
+  latency: { p50: number; p90: number; p99: number; max: number } | null;
+  models: Array<{ model: string; count: number }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_FILE = /^(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+/** Last day each domain's old logs were pruned, so pruning runs once a day */
+const prunedOn = new Map<string, string>();
+
+function analyticsDir(domain: string): string {
+  return domainSubdir(domain, "analytics");
+}
+
+/** Delete day files older than the retention window */
+function pruneLogs(domain: string, retentionDays: number): void {
+  const cutoff = new Date(Date.now() - retentionDays * DAY_MS).toISOString().slice(0, 10);
+  const dir = analyticsDir(domain);
+  for (const name of fs.readdirSync(dir)) {
+    const day = name.match(DAY_FILE)?.[1];
+    if (day && day < cutoff) fs.rmSync(path.join(dir, name), { force: true });
+  }
+}
+
+/** Append one exchange to the domain's log. A retention of 0 disables logging. */
+export function logExchange(domain: string, record: ExchangeRecord, retentionDays: number): void {
+  if (retentionDays <= 0) return;
+  const day = record.at.slice(0, 10);
+  fs.appendFileSync(path.join(analyticsDir(domain), `${day}.jsonl`), `${JSON.stringify(record)}\n`);
+
+  if (prunedOn.get(domain) !== day) {
+    prunedOn.set(domain, day);
+    pruneLogs(domain, retentionDays);
+  }
+}
+
+/**
+ * Parse a range bound: an ISO date/time, or a duration before now such as
+ * "30m", "24h" or "7d".
+ */
+export function parseTimeBound(value: string): Date {
+  const relative = value.trim().match(/^(\d+(?:\.\d+)?)\s*([mhdw])$/i);
+  if (relative) {
+    const unit = { m: 60_000, h: 3_600_000, d: DAY_MS, w: 7 * DAY_MS }[
+      relative[2].toLowerCase() as "m" | "h" | "d" | "w"
+    ];
+    return new Date(Date.now() - Number(relative[1]) * unit);
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid time "${value}". Use an ISO date or a duration like "24h" or "7d".`);
+  }
+  return date;
+}
+
+/** Read the exchanges logged within a time range, oldest first */
+export function readExchanges(domain: string, range: AnalyticsRange): ExchangeRecord[] {
+  const dir = analyticsDir(domain);
+  const first = range.since.toISOString().slice(0, 10);
+  const last = range.until.toISOString().slice(0, 10);
+  const records: ExchangeRecord[] = [];
+
+  for (const name of fs.readdirSync(dir).sort()) {
+    const day = name.match(DAY_FILE)?.[1];
+    if (!day || day < first || day > last) continue;
+    for (const line of fs.readFileSync(path.join(dir, name), "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const record: ExchangeRecord = JSON.parse(line);
+        const at = new Date(record.at);
+        if (at >= range.since && at <= range.until) records.push(record);
+      } catch {
+        // Skip a line torn by a crash mid-write
+      }
+    }
+  }
+  return records;
+}
+
+/** Fold case, whitespace and trailing punctuation so repeats group together */
+function normalizeQuery(query: string): string {
+  return query.toLowerCase().replace(/\s+/g, " ").replace(/[\s?!.]+$/, "").trim();
+}
+
+function topCounts(values: string[], limit: number): Array<{ key: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const v of values) counts.set(v, (counts.get(v) || 0) + 1);
+  return [...counts.entries()]
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))
+    .slice(0, limit);
+}
+
+/** Nearest-rank percentile of sorted values */
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+/** Aggregate exchanges into top questions, misses, error rate and latency */
+export function summarizeExchanges(
+  records: ExchangeRecord[],
+  range: AnalyticsRange,
+  limit = 10,
+): AnalyticsSummary {
+  const failed = records.filter((r) => r.error);
+  const answered = records.filter((r) => !r.error);
+  const blocked = records.filter((r) => r.guard?.action === "blocked");
+  // A miss: nothing relevant was retrieved, so the model answered blind (or the fallback did).
+  // Hybrid search returns keyword matches below minScore, so a result list alone isn't a hit.
+  const missed = records.filter((r) => (r.miss ?? r.results.length === 0) && r.guard?.action !== "blocked");
+  const latencies = answered.map((r) => r.latencyMs).sort((a, b) => a - b);
+
+  return {
+    range,
+    exchanges: records.length,
+    errors: failed.length,
+    misses: missed.length,
+    blocked: {
+      injection: blocked.filter((r) => r.guard!.reason === "injection").length,
+      offTopic: blocked.filter((r) => r.guard!.reason === "off-topic").length,
+    },
+    fallbacks: records.filter((r) => r.fallback).length,
+    topQuestions: topCounts(records.map((r) => normalizeQuery(r.query)), limit).map(
+      ({ key, count }) => ({ query: key, count }),
+    ),
+    topMisses: topCounts(missed.map((r) => normalizeQuery(r.query)), limit).map(
+      ({ key, count }) => ({ query: key, count }),
+    ),
+    topErrors: topCounts(failed.map((r) => r.error!), limit).map(({ key, count }) => ({
+      error: key,
+      count,
+    })),
+    topBlocked: topCounts(
+      blocked.map((r) => `${r.guard!.reason}\t${normalizeQuery(r.query)}`),
+      limit,
+    ).map(({ key, count }) => {
+      const [reason, query] = key.split("\t");
+      return { query, reason: reason as GuardReason, count };
+    }),
+    latency:
+      latencies.length > 0
+        ? {
+            p50: percentile(latencies, 50),
+            p90: percentile(latencies, 90),
+            p99: percentile(latencies, 99),
+            max: latencies[latencies.length - 1],
+          }
+        : null,
+    models: topCounts(
+      records.filter((r) => r.provider).map((r) => `${r.provider} / ${r.model || "default"}`),
+      limit,
+    ).map(({ key, count }) => ({ model: key, count })),
+  };
+}
+
+function percent(part: number, total: number): string {
+  return total > 0 ? `${((part / total) * 100).toFixed(1)}%` : "0%";
+}
+
+/** Human-readable summary, for tool output */
+export function formatAnalytics(domain: string, summary: AnalyticsSummary): string {
+  const { range, exchanges } = summary;
+  const lines = [
+    `**Analytics: ${domain}**`,
+    `${range.since.toISOString()} — ${range.until.toISOString()}`,
+    "",
+    `Exchanges: ${exchanges}`,
+    `Errors: ${summary.errors} (${percent(summary.errors, exchanges)})`,
+    `Retrieval misses: ${summary.misses} (${percent(summary.misses, exchanges)})`,
+    `Fallback answers: ${summary.fallbacks} (${percent(summary.fallbacks, exchanges)})`,
+    `Blocked by guardrails: ${summary.blocked.injection} injection, ${summary.blocked.offTopic} off-topic`,
+  ];
+  if (summary.latency) {
+    const { p50, p90, p99, max } = summary.latency;
+    lines.push(`Latency: p50 ${p50}ms, p90 ${p90}ms, p99 ${p99}ms, max ${max}ms`);
+  }
+  if (exchanges === 0) return lines.join("\n");
+
+  const list = (title: string, items: Array<{ label: string; count: number }>) => {
+    if (items.length === 0) return;
+    lines.push("", `**${title}:**`, ...items.map((i) => `- ${i.count}× ${i.label}`));
+  };
+  list("Top questions", summary.topQuestions.map((q) => ({ label: q.query, count: q.count })));
+  list("Top misses (no document above minScore)", summary.topMisses.map((q) => ({ label: q.query, count: q.count })));
+  list("Errors", summary.topErrors.map((e) => ({ label: e.error, count: e.count })));
+  list("Blocked", summary.topBlocked.map((b) => ({ label: `[${b.reason}] ${b.query}`, count: b.count })));
+  list("Models", summary.models.map((m) => ({ label: m.model, count: m.count })));
+  return lines.join("\n");
+}
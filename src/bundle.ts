@@ -0,0 +1,272 @@
+/**
+ * Portable domain bundles.
+ *
+ * A bundle is one gzipped JSON file with a domain's config, documents,
+ * embeddings and the embedding model they came from, so a knowledge base
+ * built on one machine can be served from another. Sessions, analytics,
+ * feedback and evaluation runs stay behind. Embeddings are stored as one
+ * base64 block of little-endian Float32s, in document order.
+ */
+
+import * as zlib from "zlib";
+import { z } from "zod";
+import {
+  loadDomainConfig,
+  loadVectors,
+  saveDomainConfig,
+  saveVectors,
+  storedEmbeddingModel,
+  type EmbeddingInfo,
+  type VectorDocument,
+} from "./vector-store";
+import { parseDomainConfig } from "./config";
+import { resolveEmbeddingModel } from "./embeddings";
+
+export const BUNDLE_FORMAT = "mcp-ragchat-bundle";
+export const BUNDLE_VERSION = 1;
+
+const bundleSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  domain: z.string().min(1),
+  /** Validated against the config schema on import */
+  config: z.record(z.unknown()),
+  embedding: z
+    .object({
+      provider: z.enum(["openai", "gemini", "bedrock", "openai-compatible"]),
+      model: z.string().min(1),
+      dim: z.number().int().min(0),
+    })
+    .nullable(),
+  documents: z.array(
+    z
+      .object({
+        id: z.string().min(1),
+        title: z.string(),
+        content: z.string(),
+        createdAt: z.string(),
+        contentHash: z.string().optional(),
+        source: z.string().optional(),
+        url: z.string().optional(),
+        updatedAt: z.string().optional(),
+      })
+      .passthrough(),
+  ),
+  vectors: z.string(),
+});
+
+type BundleFile = z.infer<typeof bundleSchema>;
+
+export interface Bundle {
+  version: number;
+  exportedAt: string;
+  domain: string;
+  config: Record<string, unknown>;
+  embedding: EmbeddingInfo | null;
+  documents: VectorDocument[];
+}
+
+export type ImportMode = "merge" | "replace";
+
+export interface ImportReport {
+  domain: string;
+  /** "created" for a new domain, else the mode used */
+  action: "created" | ImportMode;
+  added: number;
+  /** Existing documents overwritten by one with the same id (merge) */
+  updated: number;
+  /** Existing documents left as they were (merge) */
+  kept: number;
+  /** Existing documents dropped (replace) */
+  removed: number;
+  warnings: string[];
+}
+
+/** Config keys holding credentials, left out of bundles unless asked for */
+const KEY_FIELDS = ["publishableKeys", "secretKeys"];
+
+/** Serialize a domain into a gzipped bundle */
+export function exportBundle(domain: string, { includeKeys = false } = {}): Buffer {
+  const config = loadDomainConfig(domain);
+  if (!config) throw new Error(`Domain "${domain}" not configured. Run setup first.`);
+
+  const docs = loadVectors(domain);
+  const dim = docs[0]?.embedding.length ?? 0;
+  const vectors = new Float32Array(docs.length * dim);
+  docs.forEach((doc, i) => vectors.set(doc.embedding, i * dim));
+
+  const exported: Record<string, unknown> = { ...config };
+  if (!includeKeys) {
+    for (const field of KEY_FIELDS) delete exported[field];
+    // The webhook secret is a credential too, and the URL is useless without it
+    exported.fallback = {
+      ...config.fallback,
+      handoff: { ...config.fallback.handoff, webhookUrl: null, secret: null },
+    };
+  }
+
+  const file: BundleFile = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    domain: config.domain,
+    config: exported,
+    embedding: storedEmbeddingModel(domain),
+    documents: docs.map(({ embedding, ...meta }) => meta),
+    vectors: Buffer.from(vectors.buffer).toString("base64"),
+  };
+  return zlib.gzipSync(JSON.stringify(file));
+}
+
+/** Parse and validate a bundle (gzipped or plain JSON). Throws with every problem found. */
+export function readBundle(data: Buffer): Bundle {
+  let raw: any;
+  try {
+    const json = data[0] === 0x1f && data[1] === 0x8b ? zlib.gunzipSync(data) : data;
+    raw = JSON.parse(json.toString("utf-8"));
+  } catch (err: any) {
+    throw new Error(`Not a valid bundle: ${err.message}`);
+  }
+
+  if (raw?.format !== BUNDLE_FORMAT) throw new Error("Not an mcp-ragchat bundle");
+  if (typeof raw.version === "number" && raw.version > BUNDLE_VERSION) {
+    throw new Error(
+      `Bundle version ${raw.version} is newer than this mcp-ragchat supports (${BUNDLE_VERSION}). Upgrade mcp-ragchat to import it.`,
+    );
+  }
+  const result = bundleSchema.safeParse(raw);
+  if (!result.success) {
+    const problems = result.error.issues
+      .map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("; ");
+    throw new Error(`Invalid bundle: ${problems}`);
+  }
+  const file = result.data;
+
+  const ids = new Set<string>();
+  for (const doc of file.documents) {
+    if (ids.has(doc.id)) throw new Error(`Invalid bundle: duplicate document id "${doc.id}"`);
+    ids.add(doc.id);
+  }
+
+  const bytes = Buffer.from(file.vectors, "base64");
+  const count = file.documents.length;
+  const dim = file.embedding?.dim ?? (count > 0 ? bytes.length / 4 / count : 0);
+  if (!Number.isInteger(dim) || bytes.length !== count * dim * 4) {
+    throw new Error(`Invalid bundle: vector data doesn't match ${count} documents of ${dim} dimensions`);
+  }
+  const vectors = new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length));
+  if (vectors.some((v) => !Number.isFinite(v))) {
+    throw new Error("Invalid bundle: vectors contain NaN or Infinity");
+  }
+
+  return {
+    version: file.version,
+    exportedAt: file.exportedAt,
+    domain: file.domain,
+    config: file.config,
+    embedding: file.embedding,
+    documents: file.documents.map((doc, i) => ({
+      ...doc,
+      embedding: Array.from(vectors.subarray(i * dim, (i + 1) * dim)),
+    })),
+  };
+}
+
+function describeModel(m: { provider: string; model: string }): string {
+  return `${m.provider} / ${m.model}`;
+}
+
+/** Human-readable import summary, for tool and CLI output */
+export function formatImportReport(bundle: Bundle, report: ImportReport): string {
+  const from = bundle.domain === report.domain ? "" : ` from "${bundle.domain}"`;
+  const lines = [
+    {
+      created: `Created "${report.domain}"${from} with ${report.added} documents.`,
+      replace: `Replaced "${report.domain}"${from}: ${report.added} documents imported, ${report.removed} removed.`,
+      merge: `Merged into "${report.domain}"${from}: ${report.added} added, ${report.updated} updated, ${report.kept} kept.`,
+    }[report.action],
+    `Bundle exported ${bundle.exportedAt}${bundle.embedding ? `, embedded with ${describeModel(bundle.embedding)} (${bundle.embedding.dim} dimensions)` : ""}.`,
+  ];
+  if (report.warnings.length > 0) lines.push("", ...report.warnings.map((w) => `Warning: ${w}`));
+  return lines.join("\n");
+}
+
+/**
+ * Import a bundle as `as` (default: its own domain name). An existing
+ * domain is only touched with a mode: "replace" overwrites its config and
+ * documents, "merge" adds the bundle's documents (replacing equal ids) and
+ * keeps its config.
+ */
+export function importBundle(
+  bundle: Bundle,
+  { as, mode }: { as?: string; mode?: ImportMode } = {},
+): ImportReport {
+  const domain = as || bundle.domain;
+  // Document ids start with the domain name; keep them matching after a rename
+  const prefix = `${bundle.domain}-`;
+  const docs = bundle.documents.map((doc) =>
+    doc.id.startsWith(prefix) ? { ...doc, id: `${domain}-${doc.id.slice(prefix.length)}` } : doc,
+  );
+  const imported = parseDomainConfig({ ...bundle.config, domain }, domain);
+
+  const existing = loadDomainConfig(domain);
+  if (existing && !mode) {
+    throw new Error(
+      `Domain "${domain}" already exists. Import with mode "merge" to add the bundle's documents, or "replace" to overwrite it.`,
+    );
+  }
+
+  const report: ImportReport = {
+    domain,
+    action: existing ? mode! : "created",
+    added: docs.length,
+    updated: 0,
+    kept: 0,
+    removed: 0,
+    warnings: [],
+  };
+
+  if (existing && mode === "merge") {
+    const stored = storedEmbeddingModel(domain);
+    if (stored && bundle.embedding && describeModel(stored) !== describeModel(bundle.embedding)) {
+      throw new Error(
+        `Can't merge: "${domain}" was embedded with ${describeModel(stored)}, the bundle with ${describeModel(bundle.embedding)}. Re-embed one of them first (ragchat_reembed).`,
+      );
+    }
+    const incoming = new Map(docs.map((d) => [d.id, d]));
+    const current = loadVectors(domain);
+    const merged = current.map((d) => incoming.get(d.id) || d);
+    const currentIds = new Set(current.map((d) => d.id));
+    merged.push(...docs.filter((d) => !currentIds.has(d.id)));
+    report.updated = docs.filter((d) => currentIds.has(d.id)).length;
+    report.added = docs.length - report.updated;
+    report.kept = current.length - report.updated;
+    saveVectors(domain, merged, stored ?? bundle.embedding);
+  } else {
+    if (existing) report.removed = loadVectors(domain).length;
+    // Config first, so the vectors are stored in the imported format
+    saveDomainConfig(domain, imported);
+    saveVectors(domain, docs, bundle.embedding);
+  }
+
+  const config = loadDomainConfig(domain)!;
+  if (bundle.embedding) {
+    try {
+      const queries = resolveEmbeddingModel(config.embedding ?? {});
+      if (describeModel(queries) !== describeModel(bundle.embedding)) {
+        report.warnings.push(
+          `The bundle was embedded with ${describeModel(bundle.embedding)}, but queries here would use ${describeModel(queries)}. Set EMBEDDING_PROVIDER / EMBEDDING_MODEL to match, pin the model with ragchat_config's embedding setting, or run ragchat_reembed.`,
+        );
+      }
+    } catch (err: any) {
+      report.warnings.push(`${err.message} The bundle was embedded with ${describeModel(bundle.embedding)}.`);
+    }
+  } else {
+    report.warnings.push(
+      "The bundle doesn't record its embedding model. Make sure this machine embeds queries with the same model it was built with.",
+    );
+  }
+  return report;
+}
@@ -1,23 +1,74 @@
 /**
  * Self-contained chat HTTP server.
  *
- * Serves:
- *   POST /chat  — RAG-powered chat endpoint
- *   GET  /       — Health check
+ * One server hosts every served domain:
+ *   POST /d/:domain/chat          — RAG-powered chat endpoint (JSON, or SSE when streaming)
+ *   GET  /d/:domain/sessions/:id  — Transcript of a live session
+ *   POST /d/:domain/feedback      — Rate a reply (thumbs up/down, optional comment)
+ *   POST /d/:domain/handoff       — Send a session with a fallback answer to the
+ *                                   domain's handoff webhook, with the visitor's email
+ *   GET  /d/:domain/widget        — Widget settings (title, theme, text), from the domain config
+ *   GET  /d/:domain               — Domain health check
+ *   POST /chat, GET /sessions/:id,
+ *   POST /feedback, POST /handoff — Same, with the domain resolved from the
+ *                                   Origin or Host header (the domain name or
+ *                                   its configured `hosts`), or the only
+ *                                   served domain
+ *   GET  /widget.js               — The embeddable <ragchat-widget> element (see widget.ts)
+ *   GET  /                        — Health check, lists served domains
  *
- * Runs on localhost. The chat widget connects to this.
+ * Domains are added and removed at runtime; each domain's config is loaded
+ * when a request for it arrives.
+ *
+ * Conversations are kept server-side: the first reply carries a `sessionId`
+ * which the client sends back with later messages. Each reply also carries a
+ * `messageId` that feedback refers to. Replies given without the model carry
+ * `blocked` (a guardrail's reason) or `fallback: true` (low retrieval
+ * confidence), plus `handoff: true` when the visitor may leave an email.
+ *
+ * Every domain route is subject to the domain's access rules (allowed
+ * origins, API keys) and POST /chat, /feedback and /handoff to its rate
+ * limits; see access.ts.
+ * Rejections are JSON errors with status 401, 403 or 429.
  */
 
 import * as http from "http";
-import { searchByEmbedding, loadDomainConfig } from "./vector-store";
-import { generateEmbedding } from "./embeddings";
-import { callLLM, type ChatMessage } from "./llm";
+import { createHash } from "crypto";
+import { loadDomainConfig, type SearchResult } from "./vector-store";
+import { buildContext, citedBlocks, llmOptions, type RagContext } from "./rag";
+import { callLLM, resolveLLM, streamLLM } from "./llm";
+import { logExchange, type ExchangeRecord } from "./analytics";
+import { saveFeedback } from "./feedback";
+import { isEmail, sendHandoff, settleHandoffs } from "./handoff";
+import {
+  authorize,
+  clientIp,
+  consumeRateLimit,
+  type AccessDenied,
+  type AccessGrant,
+} from "./access";
+import type { DomainConfig } from "./config";
+import { widgetClientConfig, widgetScript, WIDGET_VERSION } from "./widget";
+import {
+  appendExchange,
+  createSession,
+  findExchange,
+  loadSession,
+  markHandoff,
+  pruneSessions,
+  sessionHistory,
+} from "./sessions";
 
-const CORS: Record<string, string> = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "Content-Type",
-  "Access-Control-Allow-Methods": "GET,POST,OPTIONS",
-};
+/** CORS headers. Origins are checked per domain (see access.ts), so any origin is echoed. */
+function corsHeaders(req: http.IncomingMessage): Record<string, string> {
+  return {
+    "Access-Control-Allow-Origin": req.headers.origin || "*",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization, X-RagChat-Key",
+    "Access-Control-Allow-Methods": "GET,POST,OPTIONS",
+    "Access-Control-Expose-Headers": "Retry-After",
+    Vary: "Origin",
+  };
+}
 
 const MAX_INPUT = 1000;
 
@@ -25,117 +76,675 @@ function sanitize(text: string): string {
   return text.slice(0, MAX_INPUT).replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "");
 }
 
+/** Write one server-sent event */
+function sendEvent(res: http.ServerResponse, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/** Whether the client asked for a streamed (SSE) response */
+function wantsStream(req: http.IncomingMessage, body: any): boolean {
+  if (body?.stream === true) return true;
+  return (req.headers.accept || "").includes("text/event-stream");
+}
+
+/** Domains currently served */
+const served = new Set<string>();
+
 let activeServer: http.Server | null = null;
+let activeUrl: string | null = null;
+let starting: Promise<number> | null = null;
+
+function json(res: http.ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
+
+function hostnameOf(value: string | undefined): string | null {
+  if (!value) return null;
+  try {
+    return new URL(value.includes("://") ? value : `http://${value}`).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/** Decode a percent-encoded path segment, or null if it is malformed */
+function decodeSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+/** A served domain's extra host names; none if its config can't be read */
+function domainHosts(domain: string): string[] {
+  try {
+    return loadDomainConfig(domain)?.hosts || [];
+  } catch {
+    // An invalid config.json only breaks that domain's own routes
+    return [];
+  }
+}
+
+/** Resolve the domain for an un-prefixed request from its Origin or Host header */
+function resolveDomain(req: http.IncomingMessage): string | null {
+  const candidates = [hostnameOf(req.headers.origin), hostnameOf(req.headers.host)];
+  for (const hostname of candidates) {
+    if (!hostname) continue;
+    for (const domain of served) {
+      const hosts = domainHosts(domain);
+      const names = [domain, ...hosts].map((h) => h.toLowerCase());
+      if (names.includes(hostname)) return domain;
+    }
+  }
+  return served.size === 1 ? [...served][0] : null;
+}
+
+function domainUrl(domain: string): string {
+  return `${activeUrl}/d/${encodeURIComponent(domain)}`;
+}
 
-/** Start the chat server for a domain */
-export function startChatServer(
+/** Log an exchange to the domain's analytics. Logging never affects the reply. */
+function recordExchange(
   domain: string,
-  port = 3456,
-): Promise<{ port: number; url: string }> {
-  return new Promise((resolve, reject) => {
-    const config = loadDomainConfig(domain);
-    if (!config) {
-      reject(new Error(`Domain "${domain}" not configured. Run setup first.`));
+  config: DomainConfig,
+  entry: Omit<ExchangeRecord, "at" | "provider" | "model">,
+): void {
+  try {
+    let llm: Partial<ReturnType<typeof resolveLLM>> = {};
+    try {
+      llm = resolveLLM(llmOptions(config));
+    } catch {
+      // No provider configured; the resulting error is logged instead
+    }
+    logExchange(domain, { at: new Date().toISOString(), ...entry, ...llm }, config.analyticsRetentionDays);
+  } catch {
+    // Disk full or unwritable — keep serving chat
+  }
+}
+
+/** Reject a request with a JSON error (and Retry-After when rate limited) */
+function deny(res: http.ServerResponse, denied: AccessDenied): void {
+  if (denied.retryAfter) res.setHeader("Retry-After", String(denied.retryAfter));
+  json(res, denied.status, {
+    error: denied.error,
+    ...(denied.retryAfter ? { retryAfter: denied.retryAfter } : {}),
+  });
+}
+
+/** Handle POST /chat for one domain */
+async function handleChat(
+  domain: string,
+  config: DomainConfig,
+  grant: AccessGrant,
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+): Promise<void> {
+  try {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = JSON.parse(Buffer.concat(chunks).toString());
+
+    const { message, sessionId } = body;
+    const stream = wantsStream(req, body);
+    if (!message || typeof message !== "string") {
+      json(res, 400, { error: "message required" });
       return;
     }
 
-    // Stop existing server if running
-    if (activeServer) {
-      activeServer.close();
-      activeServer = null;
+    const limited = consumeRateLimit(domain, config, {
+      ip: clientIp(req),
+      sessionId: typeof sessionId === "string" ? sessionId : undefined,
+      trusted: grant.trusted,
+    });
+    if (limited) {
+      deny(res, limited);
+      return;
     }
 
-    const server = http.createServer(async (req, res) => {
-      if (req.method === "OPTIONS") {
-        res.writeHead(200, CORS);
-        res.end();
-        return;
-      }
+    // Unknown or expired ids start a fresh session
+    let session =
+      typeof sessionId === "string" ? loadSession(domain, sessionId, config.sessionTtlMinutes) : null;
+    if (!session) {
+      pruneSessions(domain, config.sessionTtlMinutes);
+      session = createSession();
+    }
+    const history = sessionHistory(session);
 
-      if (req.method === "GET" && req.url === "/") {
-        res.writeHead(200, { ...CORS, "Content-Type": "application/json" });
-        res.end(JSON.stringify({ status: "ok", domain }));
-        return;
+    const clean = sanitize(message);
+    const startMs = Date.now();
+    let results: SearchResult[] = [];
+    let searchQuery: string | undefined;
+    let guard: ExchangeRecord["guard"];
+    let fallback = false;
+    let miss = false;
+    const record = (reply: string, messageId?: string, error?: string) =>
+      recordExchange(domain, config, {
+        sessionId: session.id,
+        ...(messageId ? { messageId } : {}),
+        query: clean,
+        ...(searchQuery ? { searchQuery } : {}),
+        ...(guard ? { guard } : {}),
+        ...(fallback ? { fallback } : {}),
+        results: results.map(({ id, score, similarity }) => ({
+          id,
+          score,
+          ...(similarity !== undefined ? { similarity } : {}),
+        })),
+        ...(miss ? { miss } : {}),
+        replyChars: reply.length,
+        latencyMs: Date.now() - startMs,
+        stream,
+        ...(error ? { error } : {}),
+      });
+
+    let context: RagContext;
+    try {
+      context = await buildContext(domain, config, clean, history);
+    } catch (err: any) {
+      record("", undefined, err.message);
+      throw err;
+    }
+    results = context.results;
+    miss = context.miss;
+    if (context.plan.rewritten) searchQuery = context.plan.query;
+    const { blocks, systemPrompt } = context;
+    const sources = results.map((r) => r.id);
+    if (context.guard.action !== "allowed") {
+      const { action, reason, detail } = context.guard;
+      guard = { action, reason: reason!, ...(detail ? { detail } : {}) };
+    }
+
+    // Blocked or low confidence: canned reply, no model call. Blocked messages stay
+    // out of the session; fallback answers are kept for the handoff transcript.
+    if (context.reply !== undefined) {
+      const { reply } = context;
+      fallback = context.path === "fallback";
+      const messageId = fallback
+        ? appendExchange(domain, session, clean, reply, { sources, citations: [], fallback })
+        : undefined;
+      const done = {
+        sessionId: session.id,
+        ...(messageId ? { messageId } : {}),
+        sources,
+        citations: [],
+        ...(fallback
+          ? { fallback, ...(context.handoff && !session.handoffAt ? { handoff: true } : {}) }
+          : { blocked: context.guard.reason }),
+        latencyMs: Date.now() - startMs,
+      };
+      record(reply, messageId);
+      if (stream) {
+        res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" });
+        sendEvent(res, "session", { sessionId: session.id });
+        sendEvent(res, "token", { text: reply });
+        sendEvent(res, "done", done);
+        res.end();
+      } else {
+        json(res, 200, { reply, ...done });
       }
+      return;
+    }
 
-      if (req.method === "POST" && req.url === "/chat") {
-        try {
-          const chunks: Buffer[] = [];
-          for await (const chunk of req) chunks.push(chunk as Buffer);
-          const body = JSON.parse(Buffer.concat(chunks).toString());
-
-          const { message, history } = body;
-          if (!message || typeof message !== "string") {
-            res.writeHead(400, { ...CORS, "Content-Type": "application/json" });
-            res.end(JSON.stringify({ error: "message required" }));
-            return;
-          }
-
-          const clean = sanitize(message);
-          const startMs = Date.now();
-
-          // RAG search
-          let ragContext = "";
-          let sources: string[] = [];
-          try {
-            const queryEmbed = await generateEmbedding(clean);
-            const results = searchByEmbedding(domain, queryEmbed, 3);
-            if (results.length > 0) {
-              ragContext = results.map((r) => r.content).join("\n---\n");
-              sources = results.map((r) => r.id);
-            }
-          } catch {
-            // RAG failure → fall back to system prompt only
-          }
-
-          // Build prompt with RAG context
-          const systemPrompt = ragContext
-            ? `${config.systemPrompt}\n\nRELEVANT CONTEXT FROM KNOWLEDGE BASE:\n${ragContext}\n\nUse this context to answer accurately. If the context doesn't cover the question, say so.`
-            : config.systemPrompt;
-
-          // Sanitize history
-          const safeHistory: ChatMessage[] = (Array.isArray(history) ? history : [])
-            .slice(-10)
-            .filter((h: any) => h?.role && h?.text)
-            .map((h: any) => ({ role: h.role, text: sanitize(h.text) }));
-
-          // Call LLM
-          const reply = await callLLM(systemPrompt, safeHistory, clean);
-          const latencyMs = Date.now() - startMs;
-
-          res.writeHead(200, { ...CORS, "Content-Type": "application/json" });
-          res.end(JSON.stringify({ reply, sources, latencyMs }));
-        } catch (err: any) {
-          res.writeHead(500, { ...CORS, "Content-Type": "application/json" });
-          res.end(JSON.stringify({ error: err.message }));
+    if (stream) {
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      sendEvent(res, "session", { sessionId: session.id });
+      // A visitor who closes the tab shouldn't keep the model generating
+      const upstream = new AbortController();
+      res.on("close", () => {
+        if (!res.writableFinished) upstream.abort();
+      });
+      let reply = "";
+      try {
+        const options = { ...llmOptions(config), signal: upstream.signal };
+        for await (const text of streamLLM(systemPrompt, history, clean, options)) {
+          if (upstream.signal.aborted) break;
+          reply += text;
+          sendEvent(res, "token", { text });
+        }
+        if (upstream.signal.aborted) {
+          record(reply, undefined, "Client disconnected");
+          return;
         }
-        return;
+        const citations = citedBlocks(reply, blocks);
+        const messageId = appendExchange(domain, session, clean, reply, { sources, citations });
+        record(reply, messageId);
+        sendEvent(res, "done", {
+          sessionId: session.id,
+          messageId,
+          sources,
+          citations,
+          latencyMs: Date.now() - startMs,
+        });
+      } catch (err: any) {
+        if (upstream.signal.aborted) {
+          record(reply, undefined, "Client disconnected");
+          return;
+        }
+        record(reply, undefined, err.message);
+        sendEvent(res, "error", { error: err.message });
       }
+      res.end();
+      return;
+    }
+
+    // Call LLM
+    let reply: string;
+    try {
+      reply = await callLLM(systemPrompt, history, clean, llmOptions(config));
+    } catch (err: any) {
+      record("", undefined, err.message);
+      throw err;
+    }
+    const latencyMs = Date.now() - startMs;
+    const citations = citedBlocks(reply, blocks);
+    const messageId = appendExchange(domain, session, clean, reply, { sources, citations });
+    record(reply, messageId);
+
+    json(res, 200, { reply, sessionId: session.id, messageId, sources, citations, latencyMs });
+  } catch (err: any) {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    json(res, 500, { error: err.message });
+  }
+}
+
+/** Handle GET /sessions/:id for one domain */
+function handleSession(
+  domain: string,
+  config: DomainConfig,
+  id: string,
+  res: http.ServerResponse,
+): void {
+  const session = loadSession(domain, id, config.sessionTtlMinutes);
+  if (!session) {
+    json(res, 404, { error: "Session not found or expired" });
+    return;
+  }
+  json(res, 200, {
+    sessionId: session.id,
+    messages: session.messages.map(({ role, text, id, citations }) => ({
+      role,
+      text,
+      ...(id ? { id } : {}),
+      ...(citations?.length ? { citations } : {}),
+    })),
+  });
+}
+
+/**
+ * Send a cacheable response with an ETag, or 304 when the client's copy is
+ * current. `maxAge` 0 means caches must revalidate on every use.
+ */
+function sendCached(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  contentType: string,
+  body: string,
+  etag: string,
+  maxAge: number,
+): void {
+  const quoted = `"${etag}"`;
+  const headers = {
+    "Content-Type": contentType,
+    "Cache-Control": maxAge > 0 ? `public, max-age=${maxAge}` : "no-cache",
+    ETag: quoted,
+    "X-Content-Type-Options": "nosniff",
+  };
+  if (req.headers["if-none-match"] === quoted) {
+    res.writeHead(304, headers);
+    res.end();
+    return;
+  }
+  res.writeHead(200, headers);
+  res.end(body);
+}
+
+/** Handle GET /widget for one domain: the widget's settings, from the domain config */
+function handleWidgetSettings(
+  config: DomainConfig,
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+): void {
+  let body: string;
+  try {
+    body = JSON.stringify(widgetClientConfig(config));
+  } catch (err: any) {
+    json(res, 500, { error: err.message });
+    return;
+  }
+  // Revalidated on every load, so config changes show up right away
+  const etag = createHash("sha256").update(body).digest("hex").slice(0, 16);
+  sendCached(req, res, "application/json", body, etag, 0);
+}
+
+/** Handle POST /feedback for one domain */
+async function handleFeedback(
+  domain: string,
+  config: DomainConfig,
+  grant: AccessGrant,
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+): Promise<void> {
+  try {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const { sessionId, messageId, rating, comment } = JSON.parse(Buffer.concat(chunks).toString());
+
+    if (rating !== "up" && rating !== "down") {
+      json(res, 400, { error: 'rating must be "up" or "down"' });
+      return;
+    }
+    if (typeof sessionId !== "string" || typeof messageId !== "string") {
+      json(res, 400, { error: "sessionId and messageId required" });
+      return;
+    }
 
-      res.writeHead(404, CORS);
-      res.end("Not Found");
+    const limited = consumeRateLimit(domain, config, {
+      ip: clientIp(req),
+      sessionId,
+      trusted: grant.trusted,
     });
+    if (limited) {
+      deny(res, limited);
+      return;
+    }
 
-    server.listen(port, () => {
-      activeServer = server;
-      resolve({ port, url: `http://localhost:${port}` });
+    // The rated exchange comes from the session, so clients can't forge it
+    const session = loadSession(domain, sessionId, config.sessionTtlMinutes);
+    const exchange = session && findExchange(session, messageId);
+    if (!session || !exchange) {
+      json(res, 404, { error: "Message not found or session expired" });
+      return;
+    }
+
+    const note = typeof comment === "string" ? sanitize(comment).trim() : "";
+    saveFeedback(domain, {
+      at: new Date().toISOString(),
+      sessionId,
+      messageId,
+      rating,
+      ...(note ? { comment: note } : {}),
+      query: exchange.query,
+      reply: exchange.reply.text,
+      sources: exchange.reply.sources || [],
+    });
+    json(res, 200, { ok: true });
+  } catch (err: any) {
+    json(res, 500, { error: err.message });
+  }
+}
+
+/** Handle POST /handoff for one domain: pass a session to a human via the domain's webhook */
+async function handleHandoff(
+  domain: string,
+  config: DomainConfig,
+  grant: AccessGrant,
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+): Promise<void> {
+  try {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const { sessionId, email, note } = JSON.parse(Buffer.concat(chunks).toString());
+
+    if (!config.fallback.handoff.webhookUrl) {
+      json(res, 404, { error: "Handoff is not enabled for this domain" });
+      return;
+    }
+    if (typeof sessionId !== "string" || typeof email !== "string") {
+      json(res, 400, { error: "sessionId and email required" });
+      return;
+    }
+    const address = email.trim();
+    if (!isEmail(address)) {
+      json(res, 400, { error: "Invalid email address" });
+      return;
+    }
+
+    const limited = consumeRateLimit(domain, config, {
+      ip: clientIp(req),
+      sessionId,
+      trusted: grant.trusted,
     });
+    if (limited) {
+      deny(res, limited);
+      return;
+    }
+
+    // Only conversations the assistant couldn't answer are handed off, once each
+    const session = loadSession(domain, sessionId, config.sessionTtlMinutes);
+    if (!session || !session.messages.some((m) => m.fallback)) {
+      json(res, 404, { error: "No fallback answer in this session, or it expired" });
+      return;
+    }
+    if (session.handoffAt) {
+      json(res, 409, { error: "This conversation was already handed off" });
+      return;
+    }
+
+    markHandoff(domain, session);
+    const text = typeof note === "string" ? sanitize(note).trim() : "";
+    // Delivered in the background, with retries; outcomes go to the handoff log
+    void sendHandoff(domain, config, session, address, text || undefined);
+    json(res, 202, { ok: true });
+  } catch (err: any) {
+    json(res, 500, { error: err.message });
+  }
+}
+
+async function handleRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+): Promise<void> {
+  for (const [name, value] of Object.entries(corsHeaders(req))) res.setHeader(name, value);
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const pathname = new URL(req.url || "/", "http://localhost").pathname;
+
+  if (req.method === "GET" && pathname === "/") {
+    json(res, 200, { status: "ok", domains: [...served] });
+    return;
+  }
+
+  if (req.method === "GET" && pathname === "/widget.js") {
+    sendCached(req, res, "application/javascript; charset=utf-8", widgetScript(), WIDGET_VERSION, 3600);
+    return;
+  }
+
+  // Split /d/:domain/rest, or resolve the domain of an un-prefixed path
+  let domain: string | null;
+  let route: string;
+  const prefixed = pathname.match(/^\/d\/([^/]+)(\/.*)?$/);
+  if (prefixed) {
+    domain = decodeSegment(prefixed[1]);
+    if (domain === null) {
+      json(res, 400, { error: "Malformed domain in path" });
+      return;
+    }
+    route = prefixed[2] || "/";
+    if (!served.has(domain)) {
+      json(res, 404, { error: `Domain "${domain}" is not served here` });
+      return;
+    }
+  } else {
+    domain = resolveDomain(req);
+    route = pathname;
+  }
+  route = route.replace(/\/+$/, "") || "/";
 
-    server.on("error", (err: any) => {
-      if (err.code === "EADDRINUSE") {
+  const session = route.match(/^\/sessions\/([^/]+)$/);
+  const isChat = route === "/chat" && req.method === "POST";
+  const isFeedback = route === "/feedback" && req.method === "POST";
+  const isHandoff = route === "/handoff" && req.method === "POST";
+  const isWidget = route === "/widget" && req.method === "GET";
+  if (isChat || isFeedback || isHandoff || isWidget || (session && req.method === "GET")) {
+    if (!domain) {
+      json(res, 404, { error: "Unknown domain. Use /d/:domain/chat." });
+      return;
+    }
+    const config = loadDomainConfig(domain);
+    if (!config) {
+      json(res, 404, { error: `Domain "${domain}" not configured` });
+      return;
+    }
+    const grant = authorize(config, req);
+    if ("status" in grant) {
+      deny(res, grant);
+      return;
+    }
+
+    if (session) {
+      const id = decodeSegment(session[1]);
+      if (id === null) json(res, 400, { error: "Malformed session id in path" });
+      else handleSession(domain, config, id, res);
+    } else if (isWidget) handleWidgetSettings(config, req, res);
+    else if (isFeedback) await handleFeedback(domain, config, grant, req, res);
+    else if (isHandoff) await handleHandoff(domain, config, grant, req, res);
+    else await handleChat(domain, config, grant, req, res);
+    return;
+  }
+
+  if (prefixed && route === "/" && req.method === "GET") {
+    json(res, 200, { status: "ok", domain });
+    return;
+  }
+
+  res.writeHead(404);
+  res.end("Not Found");
+}
+
+export interface ChatServerOptions {
+  /** Interface to bind (default: all interfaces) */
+  host?: string;
+  /** Fail if the port is taken instead of trying the next one */
+  strictPort?: boolean;
+}
+
+/** Listen on `port`, or the first free port from it upward */
+function listen(port: number, options: ChatServerOptions): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = http.createServer((req, res) => {
+      handleRequest(req, res).catch((err: any) => {
+        // e.g. an invalid config.json; fail the request, not the process
+        if (!res.headersSent) json(res, 500, { error: err.message });
+        else res.destroy();
+      });
+    });
+
+    server.once("error", (err: any) => {
+      if (err.code === "EADDRINUSE" && !options.strictPort) {
         // Try next port
-        startChatServer(domain, port + 1).then(resolve).catch(reject);
+        listen(port + 1, options).then(resolve).catch(reject);
       } else {
         reject(err);
       }
     });
+
+    const onListening = () => {
+      const { host } = options;
+      const publicHost = !host || host === "0.0.0.0" || host === "::" ? "localhost" : host;
+      activeServer = server;
+      activeUrl = `http://${publicHost.includes(":") ? `[${publicHost}]` : publicHost}:${port}`;
+      resolve(port);
+    };
+    if (options.host) server.listen(port, options.host, onListening);
+    else server.listen(port, onListening);
   });
 }
 
-/** Stop the chat server */
-export function stopChatServer(): void {
-  if (activeServer) {
+/**
+ * Serve a domain. Starts the shared server on the first call; later calls
+ * add the domain to the running server (the port is only used at startup).
+ */
+export async function startChatServer(
+  domain: string,
+  port = 3456,
+  options: ChatServerOptions = {},
+): Promise<{ port: number; url: string }> {
+  if (!loadDomainConfig(domain)) {
+    throw new Error(`Domain "${domain}" not configured. Run setup first.`);
+  }
+
+  if (!activeServer) {
+    starting = starting || listen(port, options);
+    try {
+      await starting;
+    } finally {
+      starting = null;
+    }
+  }
+  served.add(domain);
+
+  const address = activeServer!.address();
+  return {
+    port: typeof address === "object" && address ? address.port : port,
+    url: domainUrl(domain),
+  };
+}
+
+/** Stop serving a domain, or every domain. The server closes when none are left. */
+export function stopChatServer(domain?: string): void {
+  if (domain) served.delete(domain);
+  else served.clear();
+
+  if (served.size === 0 && activeServer) {
     activeServer.close();
     activeServer = null;
+    activeUrl = null;
   }
 }
+
+/** Base URL of the running server (where /widget.js is served), or null */
+export function chatServerUrl(): string | null {
+  return activeUrl;
+}
+
+/** Domains currently served, with their chat base URLs */
+export function listServedDomains(): Array<{ domain: string; url: string }> {
+  return [...served].map((domain) => ({ domain, url: domainUrl(domain) }));
+}
+
+/**
+ * Stop accepting connections and wait for in-flight requests (including
+ * open streams) and handoff deliveries to finish, forcing remaining
+ * connections closed and giving up on deliveries after `timeoutMs`.
+ */
+export function shutdownChatServer(timeoutMs = 10_000): Promise<void> {
+  served.clear();
+  const server = activeServer;
+  activeServer = null;
+  activeUrl = null;
+
+  const handoffs = new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, timeoutMs);
+    timer.unref();
+    settleHandoffs().then(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+  if (!server) return handoffs;
+
+  const closed = new Promise<void>((resolve) => {
+    const timer = setTimeout(() => server.closeAllConnections(), timeoutMs);
+    server.close(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+    server.closeIdleConnections();
+  });
+  return Promise.all([closed, handoffs]).then(() => {});
+}
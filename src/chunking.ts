@@ -0,0 +1,317 @@
+/**
+ * Markdown chunking strategies.
+ *
+ *   sections  — split on `## ` headers (the original behaviour); only
+ *               sections too long to embed whole are windowed
+ *   headings  — split on every heading level; titles carry the breadcrumb
+ *               ("Guide > Install > Linux"); oversized sections are windowed
+ *   size      — fixed-size windows with overlap, ignoring structure
+ *   structure — like headings, but packs whole paragraphs, lists, code
+ *               blocks and tables into size-bounded chunks, never cutting
+ *               through a code block or table unless it alone is too big
+ *
+ * Every strategy reports which sections were dropped or split and why.
+ */
+
+import { MAX_EMBED_CHARS } from "./embeddings";
+
+export type ChunkStrategy = "sections" | "headings" | "size" | "structure";
+
+export interface ChunkOptions {
+  strategy?: ChunkStrategy;
+  /** Target maximum chunk size in characters */
+  maxChars?: number;
+  /** Characters repeated between consecutive windows of one section */
+  overlap?: number;
+  /** Chunks shorter than this are dropped */
+  minChars?: number;
+}
+
+export interface Chunk {
+  title: string;
+  text: string;
+  /** File the chunk was ingested from, if any */
+  source?: string;
+  /** Public page for the chunk, if known */
+  url?: string;
+}
+
+export interface ChunkReport {
+  chunks: Chunk[];
+  dropped: Array<{ title: string; chars: number; reason: string }>;
+  split: Array<{ title: string; chars: number; parts: number; reason: string }>;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: Required<ChunkOptions> = {
+  strategy: "sections",
+  maxChars: 2000,
+  overlap: 200,
+  minChars: 50,
+};
+
+interface Block {
+  type: "heading" | "paragraph" | "code" | "table";
+  text: string;
+  level?: number;
+}
+
+interface Section {
+  title: string;
+  blocks: Block[];
+}
+
+// ============ PARSING ============
+
+/** Parse markdown into headings, paragraphs, fenced code blocks and tables */
+function parseBlocks(markdown: string): Block[] {
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: "paragraph", text: paragraph.join("\n") });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(/^\s*(```|~~~)/);
+    if (fence) {
+      flush();
+      const code = [line];
+      while (++i < lines.length) {
+        code.push(lines[i]);
+        if (lines[i].trim().startsWith(fence[1])) break;
+      }
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      flush();
+      blocks.push({ type: "heading", level: heading[1].length, text: heading[2].trim() });
+      continue;
+    }
+
+    if (line.trim().startsWith("|")) {
+      flush();
+      const table = [line];
+      while (i + 1 < lines.length && lines[i + 1].trim().startsWith("|")) {
+        table.push(lines[++i]);
+      }
+      blocks.push({ type: "table", text: table.join("\n") });
+      continue;
+    }
+
+    if (line.trim() === "") flush();
+    else paragraph.push(line);
+  }
+  flush();
+
+  return blocks;
+}
+
+/** Group blocks under their nearest heading, titled with the heading breadcrumb */
+function sectionsByHeading(blocks: Block[]): Section[] {
+  const sections: Section[] = [];
+  const trail: string[] = [];
+  let current: Section = { title: "Overview", blocks: [] };
+
+  for (const block of blocks) {
+    if (block.type === "heading") {
+      if (current.blocks.length > 0) sections.push(current);
+      trail.length = block.level! - 1;
+      trail[block.level! - 1] = block.text;
+      current = { title: trail.filter(Boolean).join(" > "), blocks: [] };
+    } else {
+      current.blocks.push(block);
+    }
+  }
+  if (current.blocks.length > 0) sections.push(current);
+
+  return sections;
+}
+
+function joinBlocks(blocks: Block[]): string {
+  return blocks.map((b) => b.text).join("\n\n").trim();
+}
+
+// ============ SPLITTING ============
+
+/** Cut text into windows of at most maxChars, preferring whitespace boundaries */
+function windows(text: string, maxChars: number, overlap: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const parts: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + maxChars, text.length);
+    if (end < text.length) {
+      const cut = Math.max(text.lastIndexOf("\n", end), text.lastIndexOf(" ", end));
+      if (cut > start + maxChars / 2) end = cut;
+    }
+    parts.push(text.slice(start, end).trim());
+    if (end >= text.length) break;
+    // Overlap at most half a window, so each window moves well forward
+    start = end - Math.min(overlap, Math.floor((end - start) / 2));
+  }
+  return parts;
+}
+
+/** Pack whole blocks into chunks of at most maxChars, carrying trailing prose as overlap */
+function packBlocks(blocks: Block[], maxChars: number, overlap: number): {
+  parts: string[];
+  oversized: number;
+} {
+  const parts: string[] = [];
+  let current: Block[] = [];
+  let size = 0;
+  let fresh = false;
+  let oversized = 0;
+
+  const emit = (carryOverlap: boolean) => {
+    if (fresh) parts.push(joinBlocks(current));
+    const carry: Block[] = [];
+    let carried = 0;
+    for (let i = current.length - 1; carryOverlap && i >= 0; i--) {
+      const b = current[i];
+      if (b.type !== "paragraph" || carried + b.text.length > overlap) break;
+      carry.unshift(b);
+      carried += b.text.length + 2;
+    }
+    current = carry;
+    size = carried;
+    fresh = false;
+  };
+
+  for (const block of blocks) {
+    if (block.text.length > maxChars) {
+      emit(false);
+      oversized++;
+      parts.push(...windows(block.text, maxChars, overlap));
+      continue;
+    }
+    if (fresh && size + block.text.length > maxChars) emit(true);
+    current.push(block);
+    size += block.text.length + 2;
+    fresh = true;
+  }
+  emit(false);
+
+  return { parts, oversized };
+}
+
+/** Original behaviour: split on `## ` headers */
+function splitSections(content: string): Chunk[] {
+  const sections = content.split(/^## /m).filter((s) => s.trim());
+  return sections.map((section) => {
+    const firstLine = section.split("\n")[0];
+    const text = section.substring(firstLine.length).trim();
+    // Content before the first ## may open with a # title
+    return { title: firstLine.replace(/^#+\s*/, "").trim(), text };
+  });
+}
+
+// ============ ENTRY POINT ============
+
+/** Split markdown into chunks with the chosen strategy */
+export function chunkMarkdown(
+  content: string,
+  options: ChunkOptions = {},
+): ChunkReport {
+  const { strategy, maxChars, overlap, minChars } = {
+    ...DEFAULT_CHUNK_OPTIONS,
+    ...options,
+  };
+  const report: ChunkReport = { chunks: [], dropped: [], split: [] };
+
+  const candidates: Chunk[] = [];
+
+  if (strategy === "sections") {
+    for (const section of splitSections(content)) {
+      if (section.text.length <= MAX_EMBED_CHARS) {
+        candidates.push(section);
+        continue;
+      }
+      // The embedders would silently cut the rest
+      const parts = windows(section.text, Math.min(maxChars, MAX_EMBED_CHARS), overlap);
+      report.split.push({
+        title: section.title,
+        chars: section.text.length,
+        parts: parts.length,
+        reason: `longer than the ${MAX_EMBED_CHARS} chars an embedding reads`,
+      });
+      parts.forEach((part, i) =>
+        candidates.push({ title: `${section.title} (${i + 1}/${parts.length})`, text: part }),
+      );
+    }
+  } else if (strategy === "size") {
+    const text = content.trim();
+    const parts = windows(text, maxChars, overlap);
+    if (parts.length > 1) {
+      report.split.push({
+        title: "(document)",
+        chars: text.length,
+        parts: parts.length,
+        reason: `fixed windows of ${maxChars} chars with ${overlap} overlap`,
+      });
+    }
+    parts.forEach((text, i) => candidates.push({ title: `Part ${i + 1}`, text }));
+  } else {
+    for (const section of sectionsByHeading(parseBlocks(content))) {
+      const text = joinBlocks(section.blocks);
+      if (text.length <= maxChars) {
+        candidates.push({ title: section.title, text });
+        continue;
+      }
+
+      let parts: string[];
+      let reason: string;
+      if (strategy === "structure") {
+        const packed = packBlocks(section.blocks, maxChars, overlap);
+        parts = packed.parts;
+        reason = packed.oversized > 0
+          ? `longer than ${maxChars} chars; ${packed.oversized} block(s) too large to keep whole`
+          : `longer than ${maxChars} chars; split between blocks`;
+      } else {
+        parts = windows(text, maxChars, overlap);
+        reason = `longer than ${maxChars} chars`;
+      }
+
+      report.split.push({ title: section.title, chars: text.length, parts: parts.length, reason });
+      parts.forEach((part, i) =>
+        candidates.push({ title: `${section.title} (${i + 1}/${parts.length})`, text: part }),
+      );
+    }
+  }
+
+  for (const chunk of candidates) {
+    if (chunk.text.length < minChars) {
+      report.dropped.push({
+        title: chunk.title,
+        chars: chunk.text.length,
+        reason: `shorter than ${minChars} chars`,
+      });
+    } else {
+      report.chunks.push(chunk);
+    }
+  }
+
+  return report;
+}
+
+/** Human-readable list of dropped and split sections, for tool output */
+export function formatChunkReport(report: ChunkReport): string {
+  const lines: string[] = [];
+  for (const d of report.dropped) {
+    lines.push(`- dropped "${d.title}" (${d.chars} chars): ${d.reason}`);
+  }
+  for (const s of report.split) {
+    lines.push(`- split "${s.title}" (${s.chars} chars) into ${s.parts}: ${s.reason}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,275 @@
+/**
+ * Command-line interface for running mcp-ragchat without an MCP client.
+ *
+ *   mcp-ragchat serve  [--domain a.com,b.com] [--host 0.0.0.0] [--port 3456]
+ *   mcp-ragchat setup  --domain a.com --file content.md --prompt "You are..."
+ *   mcp-ragchat status
+ *   mcp-ragchat test   --domain a.com --message "What do you sell?"
+ *   mcp-ragchat export --domain a.com --file a.ragchat
+ *   mcp-ragchat import --file a.ragchat [--as b.com] [--mode merge|replace]
+ *
+ * Every command accepts --data-dir (default: $RAGCHAT_DATA_DIR or ~/.mcp-ragchat).
+ * `serve` runs until SIGTERM/SIGINT, then drains in-flight requests.
+ */
+
+import * as fs from "fs";
+import { parseArgs } from "util";
+import { listDomains, loadDomainConfig, saveDomainConfig } from "./vector-store";
+import { NEW_DOMAIN_SEARCH_MODE, parseDomainConfig } from "./config";
+import { chunkMarkdown, formatChunkReport } from "./chunking";
+import { syncDocuments, formatSyncReport } from "./sync";
+import { formatGuardVerdict } from "./guardrails";
+import { startChatServer, shutdownChatServer, listServedDomains, chatServerUrl } from "./chat-server";
+import { answer } from "./rag";
+import { exportBundle, formatImportReport, importBundle, readBundle } from "./bundle";
+
+export const CLI_COMMANDS = ["serve", "setup", "status", "test", "export", "import", "help"];
+
+const USAGE = `Usage: mcp-ragchat <command> [options]
+
+With no command, runs the MCP server on stdio.
+
+Commands:
+  serve    Run the chat server (all domains unless --domain is given)
+  setup    Create or sync a domain from a markdown file
+  status   List configured domains
+  test     Send a test message to a domain
+  export   Write a domain to a portable bundle file
+  import   Load a bundle file as a new or existing domain
+
+Options:
+  --data-dir <dir>      Data directory (default: $RAGCHAT_DATA_DIR or ~/.mcp-ragchat)
+  --domain <name>       Domain (serve: comma-separated or repeated)
+  --host <host>         serve: interface to bind (default: 0.0.0.0)
+  --port <port>         serve: port (default: $PORT or 3456)
+  --file <path>         setup: markdown file, or - for stdin; export/import: bundle file
+  --prompt <text>       setup: system prompt (kept from the existing config if omitted)
+  --search-mode <mode>  setup: vector | keyword | hybrid
+  --strategy <name>     setup: sections | headings | size | structure
+  --reset               setup: re-embed everything instead of syncing
+  --message <text>      test: message to send
+  --include-keys        export: include the domain's API keys and handoff webhook
+  --as <name>           import: domain name to import as
+  --mode <mode>         import: merge | replace, if the domain exists
+`;
+
+const OPTIONS = {
+  "data-dir": { type: "string" },
+  domain: { type: "string", multiple: true },
+  host: { type: "string" },
+  port: { type: "string" },
+  file: { type: "string" },
+  prompt: { type: "string" },
+  "search-mode": { type: "string" },
+  strategy: { type: "string" },
+  reset: { type: "boolean" },
+  message: { type: "string" },
+  "include-keys": { type: "boolean" },
+  as: { type: "string" },
+  mode: { type: "string" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+type Flags = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>["values"];
+
+class UsageError extends Error {}
+
+function requireFlag(flags: Flags, name: "file" | "message"): string {
+  const value = flags[name];
+  if (!value) throw new UsageError(`--${name} is required`);
+  return value;
+}
+
+function singleDomain(flags: Flags): string {
+  const [domain] = flags.domain || [];
+  if (!domain) throw new UsageError("--domain is required");
+  return domain;
+}
+
+// ============ COMMANDS ============
+
+async function serve(flags: Flags): Promise<number> {
+  const requested = (flags.domain || []).flatMap((d) => d.split(",")).map((d) => d.trim()).filter(Boolean);
+  let domains = requested;
+  if (domains.length === 0) {
+    const all = listDomains();
+    for (const d of all.filter((d) => d.error)) console.error(`Skipping ${d.domain}: ${d.error}`);
+    domains = all.filter((d) => !d.error).map((d) => d.domain);
+  }
+  if (domains.length === 0) {
+    console.error("No domains configured. Run `mcp-ragchat setup` first.");
+    return 1;
+  }
+
+  const port = Number(flags.port || process.env.PORT || 3456);
+  if (!Number.isInteger(port) || port <= 0) throw new UsageError(`Invalid --port: ${flags.port}`);
+
+  for (const domain of domains) {
+    await startChatServer(domain, port, { host: flags.host || "0.0.0.0", strictPort: true });
+  }
+  for (const { domain, url } of listServedDomains()) {
+    console.log(`Serving ${domain} at ${url}/chat`);
+  }
+  console.log(`Widget script at ${chatServerUrl()}/widget.js`);
+
+  await new Promise<void>((resolve) => {
+    const stop = (signal: string) => {
+      console.log(`${signal} received, shutting down...`);
+      shutdownChatServer().then(resolve);
+    };
+    process.once("SIGTERM", () => stop("SIGTERM"));
+    process.once("SIGINT", () => stop("SIGINT"));
+  });
+
+  console.log("Chat server stopped.");
+  return 0;
+}
+
+async function setup(flags: Flags): Promise<number> {
+  const domain = singleDomain(flags);
+  const file = requireFlag(flags, "file");
+  const content = fs.readFileSync(file === "-" ? 0 : file, "utf-8");
+
+  const previous = loadDomainConfig(domain);
+  const systemPrompt = flags.prompt || previous?.systemPrompt;
+  if (!systemPrompt) throw new UsageError("--prompt is required for a new domain");
+
+  const chunking = flags.strategy
+    ? { ...previous?.chunking, strategy: flags.strategy }
+    : previous?.chunking;
+
+  // Validate before spending anything on embeddings
+  const config = parseDomainConfig(
+    {
+      ...previous,
+      domain,
+      systemPrompt,
+      searchMode: flags["search-mode"] || previous?.searchMode || NEW_DOMAIN_SEARCH_MODE,
+      chunking,
+      createdAt: previous?.createdAt || new Date().toISOString(),
+    },
+    domain,
+  );
+
+  const report = chunkMarkdown(content, config.chunking);
+  const reportText = formatChunkReport(report);
+  if (reportText) console.log(`Chunking:\n${reportText}\n`);
+  if (report.chunks.length === 0) {
+    console.error("No sections found with enough content.");
+    return 1;
+  }
+
+  saveDomainConfig(domain, config);
+
+  const sync = await syncDocuments(domain, report.chunks, {
+    reset: !!flags.reset,
+    scope: (doc) => !doc.source,
+    onProgress: (done, total) => process.stderr.write(`\rEmbedding ${done}/${total}`),
+  });
+  process.stderr.write("\n");
+
+  console.log(`Domain "${domain}" configured.\n${formatSyncReport(sync)}`);
+  return sync.failed.length > 0 ? 1 : 0;
+}
+
+function status(): number {
+  const domains = listDomains();
+  if (domains.length === 0) {
+    console.log("No domains configured.");
+    return 0;
+  }
+  for (const d of domains) {
+    if (d.error) console.log(`${d.domain}\tinvalid: ${d.error}`);
+    else console.log(`${d.domain}\t${d.documentCount} documents\tcreated ${d.createdAt || "unknown"}`);
+  }
+  return 0;
+}
+
+async function test(flags: Flags): Promise<number> {
+  const domain = singleDomain(flags);
+  const message = requireFlag(flags, "message");
+
+  const { reply, results, citations, plan, guard, path, latencyMs } = await answer(domain, message);
+  console.log(reply);
+  for (const c of citations) {
+    console.log(`  [${c.n}] ${c.title}${c.url || c.source ? ` — ${c.url || c.source}` : ""}`);
+  }
+  console.log(
+    `\nSources: ${results.length > 0 ? results.map((r) => `${r.id} (${r.score.toFixed(2)})`).join(", ") : "none"}`,
+  );
+  if (plan.rewritten || plan.variants.length > 0) {
+    console.log(`Search: ${[plan.query, ...plan.variants].map((q) => `"${q}"`).join(", ")}`);
+  }
+  if (guard.action !== "allowed") console.log(`Guardrails: ${formatGuardVerdict(guard)}`);
+  console.log(`Path: ${path}`);
+  console.log(`Latency: ${latencyMs}ms`);
+  return 0;
+}
+
+function exportDomain(flags: Flags): number {
+  const domain = singleDomain(flags);
+  const file = requireFlag(flags, "file");
+  fs.writeFileSync(file, exportBundle(domain, { includeKeys: !!flags["include-keys"] }));
+  console.log(`Exported "${domain}" to ${file}`);
+  return 0;
+}
+
+function importDomain(flags: Flags): number {
+  const file = requireFlag(flags, "file");
+  const mode = flags.mode;
+  if (mode !== undefined && mode !== "merge" && mode !== "replace") {
+    throw new UsageError(`Invalid --mode: ${mode}`);
+  }
+  const bundle = readBundle(fs.readFileSync(file));
+  console.log(formatImportReport(bundle, importBundle(bundle, { as: flags.as, mode })));
+  return 0;
+}
+
+// ============ ENTRY POINT ============
+
+/** Run a CLI command. Resolves to the process exit code. */
+export async function runCli(argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+  } catch (err: any) {
+    console.error(`${err.message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values: flags, positionals } = parsed;
+  const [command] = positionals;
+  if (flags.help || command === "help") {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (flags["data-dir"]) process.env.RAGCHAT_DATA_DIR = flags["data-dir"];
+
+  try {
+    switch (command) {
+      case "serve":
+        return await serve(flags);
+      case "setup":
+        return await setup(flags);
+      case "status":
+        return status();
+      case "test":
+        return await test(flags);
+      case "export":
+        return exportDomain(flags);
+      case "import":
+        return importDomain(flags);
+      default:
+        console.error(`Unknown command: ${command}\n\n${USAGE}`);
+        return 2;
+    }
+  } catch (err: any) {
+    if (err instanceof UsageError) {
+      console.error(`${err.message}\n\n${USAGE}`);
+      return 2;
+    }
+    console.error(`Error: ${err.message}`);
+    return 1;
+  }
+}
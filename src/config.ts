@@ -0,0 +1,496 @@
+/**
+ * Per-domain configuration schema.
+ *
+ * config.json is validated on every load and save. Optional settings fall
+ * back to the defaults below, so configs written by older versions keep
+ * working. Unknown keys are preserved.
+ */
+
+import { z } from "zod";
+import { DEFAULT_CHUNK_OPTIONS } from "./chunking";
+import { ANTHROPIC_MAX_TEMPERATURE } from "./llm";
+import { widgetCss, widgetStrings } from "./widget";
+
+export const chunkingSchema = z
+  .object({
+    strategy: z
+      .enum(["sections", "headings", "size", "structure"])
+      .optional()
+      .describe(
+        "'sections' (default): split on ## headers, windowing only sections over 8000 chars. 'headings': split on every heading level with breadcrumb titles. 'size': fixed-size windows with overlap. 'structure': heading-aware, size-bounded, keeps code blocks and tables whole.",
+      ),
+    maxChars: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Maximum chunk size in characters (default: 2000)"),
+    overlap: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe("Characters shared between consecutive chunks of one section (default: 200)"),
+    minChars: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe("Chunks shorter than this are dropped (default: 50)"),
+  })
+  .refine(
+    (c) => (c.overlap ?? DEFAULT_CHUNK_OPTIONS.overlap) < (c.maxChars ?? DEFAULT_CHUNK_OPTIONS.maxChars),
+    { message: "overlap must be smaller than maxChars", path: ["overlap"] },
+  );
+
+export const queryRewriteSchema = z.object({
+  condense: z
+    .boolean()
+    .default(false)
+    .describe("Rewrite follow-up messages into a standalone search query using the conversation (default: false)"),
+  variants: z
+    .number()
+    .int()
+    .min(0)
+    .max(5)
+    .default(0)
+    .describe("Extra paraphrased queries to retrieve with; results are merged (default: 0)"),
+});
+
+export const vectorIndexSchema = z.object({
+  quantization: z
+    .enum(["float32", "int8"])
+    .default("float32")
+    .describe(
+      "How embeddings are stored: 'float32' (exact) or 'int8' (4x smaller, slightly less precise). Applies on the next write or ragchat_index rebuild",
+    ),
+  ann: z
+    .boolean()
+    .default(true)
+    .describe("Search large domains with an approximate nearest-neighbor (HNSW) index (default: true)"),
+  annMinDocs: z
+    .number()
+    .int()
+    .positive()
+    .default(5000)
+    .describe("Document count from which the ANN index is used; smaller domains are searched exactly (default: 5000)"),
+  efSearch: z
+    .number()
+    .int()
+    .min(10)
+    .max(1000)
+    .default(64)
+    .describe("Candidates an ANN search explores; higher is more accurate and slower (default: 64)"),
+});
+
+export const widgetSettingsSchema = z
+  .object({
+    title: z.string().min(1).max(100).default("Chat with us").describe("Widget header title (default: 'Chat with us')"),
+    color: z.string().default("#22c55e").describe("Accent color (default: '#22c55e')"),
+    position: z
+      .enum(["right", "left"])
+      .default("right")
+      .describe("Corner of the page for the chat bubble (default: right)"),
+    theme: z
+      .enum(["light", "dark", "auto"])
+      .default("dark")
+      .describe("Color theme; auto follows the visitor's OS setting (default: dark)"),
+    greeting: z
+      .string()
+      .max(2000)
+      .nullable()
+      .default(null)
+      .describe("Message shown when a conversation starts (markdown allowed)"),
+    starters: z
+      .array(z.string().min(1).max(200))
+      .max(6)
+      .default([])
+      .describe("Suggested starter questions, shown as buttons until the visitor sends a message"),
+    strings: z
+      .record(z.string())
+      .default({})
+      .describe("UI text overrides for localization, e.g. {\"placeholder\": \"Posez votre question...\"}"),
+    cssVars: z
+      .record(z.string())
+      .default({})
+      .describe('CSS variable overrides, e.g. {"bg": "#fff", "font": "Inter, sans-serif"}'),
+  })
+  .superRefine((widget, ctx) => {
+    // The same checks the server runs when it builds the widget's stylesheet and text
+    const checks = [
+      () => widgetCss(widget.theme, widget.color, widget.cssVars),
+      () => widgetStrings(widget.strings),
+    ];
+    for (const check of checks) {
+      try {
+        check();
+      } catch (err: any) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: err.message });
+      }
+    }
+  });
+
+export const guardrailsSchema = z.object({
+  injection: z
+    .enum(["block", "flag", "off"])
+    .default("block")
+    .describe(
+      "Visitor messages that look like prompt injection: 'block' answers with replies.injection, 'flag' answers as usual but logs them, 'off' skips the check (default: block)",
+    ),
+  documents: z
+    .enum(["flag", "drop"])
+    .default("flag")
+    .describe(
+      "Retrieved documents that look like prompt injection: 'flag' keeps them (fenced off as data) and logs them, 'drop' leaves them out of the context (default: flag)",
+    ),
+  topic: z
+    .object({
+      mode: z
+        .enum(["off", "similarity", "classifier"])
+        .default("off")
+        .describe(
+          "Keep the chat on topic: 'similarity' redirects messages whose best document match is below minSimilarity, 'classifier' asks the LLM (one extra call per message) (default: off)",
+        ),
+      minSimilarity: z
+        .number()
+        .min(0)
+        .max(1)
+        .default(0.3)
+        .describe("Vector similarity a message needs to some document to count as on topic (default: 0.3)"),
+      description: z
+        .string()
+        .min(1)
+        .nullable()
+        .default(null)
+        .describe("What the assistant covers, for the classifier. null: the system prompt"),
+    })
+    .default({}),
+  replies: z
+    .object({
+      injection: z
+        .string()
+        .min(1)
+        .default("Sorry, I can't help with that. Is there anything else I can help you with?")
+        .describe("Reply to blocked injection attempts"),
+      offTopic: z
+        .string()
+        .min(1)
+        .default("Sorry, I can only help with questions about this website.")
+        .describe("Reply to off-topic messages"),
+    })
+    .default({}),
+});
+
+export const fallbackSchema = z
+  .object({
+    enabled: z
+      .boolean()
+      .default(false)
+      .describe(
+        "Answer low-confidence messages with `reply` instead of letting the model answer without context (default: false)",
+      ),
+    minConfidence: z
+      .number()
+      .min(0)
+      .default(0)
+      .describe(
+        "Best vector similarity a message's documents need for the model to answer it (BM25 score with searchMode 'keyword'). 0: fall back only when no document reaches minScore (default: 0)",
+      ),
+    reply: z
+      .string()
+      .min(1)
+      .default("I'm not sure about that one. Please contact our support team and they'll be happy to help.")
+      .describe("Answer given instead, e.g. \"I don't know — contact support at help@example.com\""),
+    handoff: z
+      .object({
+        webhookUrl: z
+          .string()
+          .url()
+          .nullable()
+          .default(null)
+          .describe(
+            "When set, the widget offers to collect the visitor's email after a fallback answer and POSTs it with the transcript here",
+          ),
+        secret: z
+          .string()
+          .min(16)
+          .nullable()
+          .default(null)
+          .describe("Signs webhook requests (HMAC-SHA256 in X-RagChat-Signature); required with webhookUrl"),
+        prompt: z
+          .string()
+          .min(1)
+          .max(500)
+          .default("Leave your email and someone from our team will get back to you.")
+          .describe("Text shown above the widget's email field"),
+      })
+      .default({}),
+  })
+  .superRefine((fallback, ctx) => {
+    const { webhookUrl, secret } = fallback.handoff;
+    if (webhookUrl && !/^https?:\/\//i.test(webhookUrl)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["handoff", "webhookUrl"], message: "must be an http(s) URL" });
+    }
+    if (webhookUrl && !secret) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["handoff", "secret"],
+        message: "required when webhookUrl is set",
+      });
+    }
+  });
+
+export const rateLimitSchema = z.object({
+  ipPerMinute: z
+    .number()
+    .positive()
+    .default(30)
+    .describe("Chat messages per minute per client IP, refilled continuously (default: 30)"),
+  ipBurst: z
+    .number()
+    .int()
+    .positive()
+    .default(10)
+    .describe("Messages a client IP may send back to back (default: 10)"),
+  sessionPerMinute: z
+    .number()
+    .positive()
+    .default(12)
+    .describe("Chat messages per minute per session (default: 12)"),
+  sessionBurst: z
+    .number()
+    .int()
+    .positive()
+    .default(6)
+    .describe("Messages a session may send back to back (default: 6)"),
+  dailyPerIp: z
+    .number()
+    .int()
+    .positive()
+    .nullable()
+    .default(300)
+    .describe("Chat messages per client IP per UTC day; null for no limit (default: 300)"),
+  dailyTotal: z
+    .number()
+    .int()
+    .positive()
+    .nullable()
+    .default(null)
+    .describe("Chat messages for the whole domain per UTC day; null for no limit (default)"),
+});
+
+/**
+ * Search mode new domains are created with. Configs without a searchMode
+ * predate hybrid search and keep the pure vector search they were built for.
+ */
+export const NEW_DOMAIN_SEARCH_MODE = "hybrid";
+
+export const domainConfigSchema = z
+  .object({
+    domain: z.string().min(1),
+    systemPrompt: z.string().min(1).describe("System prompt for the chat assistant"),
+    createdAt: z.string(),
+    searchMode: z
+      .enum(["vector", "keyword", "hybrid"])
+      .default("vector")
+      .describe(
+        "Retrieval mode: 'vector', 'keyword' (BM25) or 'hybrid' (both, fused). New domains use 'hybrid'; domains set up before hybrid search existed keep 'vector'",
+      ),
+    chunking: chunkingSchema
+      .default({})
+      .describe("How content is split into documents on setup/ingest"),
+    hosts: z
+      .array(z.string())
+      .optional()
+      .describe("Hostnames whose Origin/Host header routes plain POST /chat to this domain"),
+    provider: z
+      .enum(["openai", "anthropic", "gemini", "openai-compatible"])
+      .nullable()
+      .default(null)
+      .describe("LLM provider for chat. null: auto-detect from LLM_PROVIDER / API keys"),
+    model: z
+      .string()
+      .min(1)
+      .nullable()
+      .default(null)
+      .describe("LLM model. null: LLM_MODEL or the provider default"),
+    temperature: z
+      .number()
+      .min(0)
+      .max(2)
+      .default(0.7)
+      .describe("Sampling temperature, 0-2; Anthropic accepts 0-1 (default: 0.7)"),
+    maxTokens: z
+      .number()
+      .int()
+      .positive()
+      .max(32_000)
+      .default(512)
+      .describe("Maximum reply length in tokens (default: 512)"),
+    topK: z
+      .number()
+      .int()
+      .min(1)
+      .max(50)
+      .default(3)
+      .describe("Documents retrieved per message (default: 3)"),
+    minScore: z
+      .number()
+      .min(0)
+      .max(1)
+      .default(0.3)
+      .describe("Minimum vector similarity for a document to be used (default: 0.3)"),
+    contextBudget: z
+      .number()
+      .int()
+      .positive()
+      .default(6000)
+      .describe("Maximum characters of retrieved context in the prompt (default: 6000)"),
+    embedding: z
+      .object({
+        provider: z.enum(["openai", "gemini", "bedrock", "openai-compatible"]),
+        model: z.string().min(1).optional(),
+      })
+      .nullable()
+      .default(null)
+      .describe(
+        "Embedding provider and model for this domain. null: EMBEDDING_PROVIDER / EMBEDDING_MODEL / API keys. Changing it requires ragchat_reembed",
+      ),
+    vectorIndex: vectorIndexSchema
+      .default({})
+      .describe("Vector storage format and approximate nearest-neighbor search"),
+    queryRewrite: queryRewriteSchema
+      .default({})
+      .describe("LLM query rewriting before retrieval (one extra LLM call per message when enabled)"),
+    sessionTtlMinutes: z
+      .number()
+      .int()
+      .positive()
+      .default(1440)
+      .describe("Chat sessions expire after this many minutes of inactivity (default: 1440)"),
+    analyticsRetentionDays: z
+      .number()
+      .int()
+      .min(0)
+      .max(3650)
+      .default(30)
+      .describe("Days of chat analytics to keep; 0 disables logging (default: 30)"),
+    allowedOrigins: z
+      .array(z.string().min(1))
+      .optional()
+      .describe(
+        "Browser origins allowed to use the chat, e.g. 'https://mysite.com' or '*.mysite.com'. Unset: any origin",
+      ),
+    publishableKeys: z
+      .array(z.string().min(1))
+      .optional()
+      .describe("Widget keys (pk_...). When set, browser requests must send one in X-RagChat-Key"),
+    secretKeys: z
+      .array(z.string().min(1))
+      .optional()
+      .describe("Server keys (sk_...) sent as 'Authorization: Bearer'. Skip origin checks and per-client limits"),
+    rateLimit: rateLimitSchema
+      .default({})
+      .describe("Token-bucket rate limits and daily quotas for POST /chat"),
+    guardrails: guardrailsSchema
+      .default({})
+      .describe("Prompt-injection detection, topic scope and canned replies"),
+    fallback: fallbackSchema
+      .default({})
+      .describe("Low-confidence fallback answer and optional human handoff by email"),
+    widget: widgetSettingsSchema
+      .default({})
+      .describe("Look and text of the embeddable widget, served from GET /d/{domain}/widget"),
+  })
+  .passthrough();
+
+/** The object schema under defaults, optionals and refinements, if any */
+function objectSchema(schema: z.ZodTypeAny): z.AnyZodObject | null {
+  let inner = schema;
+  while (inner instanceof z.ZodDefault || inner instanceof z.ZodOptional || inner instanceof z.ZodEffects) {
+    inner = inner instanceof z.ZodEffects ? inner.innerType() : inner._def.innerType;
+  }
+  return inner instanceof z.ZodObject ? inner : null;
+}
+
+/**
+ * An optional, default-free version of a setting, so a patch holds only the
+ * keys given. Nested sections become partial and drop their refinements;
+ * the merged config is validated in full when it is saved.
+ */
+function patchSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  const section = objectSchema(schema);
+  let patch: z.ZodTypeAny = section
+    ? z.object(Object.fromEntries(Object.entries(section.shape).map(([k, v]) => [k, patchSchema(v as z.ZodTypeAny)])))
+    : schema instanceof z.ZodDefault
+      ? schema.removeDefault()
+      : schema;
+  patch = patch.optional();
+  return schema.description ? patch.describe(schema.description) : patch;
+}
+
+/** Settings that can be changed after setup; omitted keys, nested ones included, stay as they are */
+export const domainSettingsSchema = z
+  .object(
+    Object.fromEntries(
+      Object.entries(domainConfigSchema.omit({ domain: true, createdAt: true }).shape).map(([k, v]) => [
+        k,
+        patchSchema(v as z.ZodTypeAny),
+      ]),
+    ),
+  )
+  .passthrough();
+
+export type DomainConfig = z.infer<typeof domainConfigSchema>;
+export type RateLimit = z.infer<typeof rateLimitSchema>;
+export type QueryRewrite = z.infer<typeof queryRewriteSchema>;
+export type VectorIndexSettings = z.infer<typeof vectorIndexSchema>;
+export type Guardrails = z.infer<typeof guardrailsSchema>;
+export type FallbackSettings = z.infer<typeof fallbackSchema>;
+export type WidgetSettings = z.infer<typeof widgetSettingsSchema>;
+export type DomainConfigInput = z.input<typeof domainConfigSchema>;
+export type DomainSettings = z.infer<typeof domainSettingsSchema>;
+
+/**
+ * Apply a settings patch to a config. Sections such as fallback or
+ * rateLimit are merged key by key; other values, arrays and records
+ * included, are replaced. Undefined values are skipped.
+ */
+export function mergeSettings<T extends Record<string, unknown>>(config: T, patch: Record<string, unknown>): T {
+  return mergeSection(domainConfigSchema, config, patch) as T;
+}
+
+function mergeSection(schema: z.ZodTypeAny, base: Record<string, unknown>, patch: Record<string, unknown>) {
+  const shape = objectSchema(schema)?.shape ?? {};
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) continue;
+    const current = base[key];
+    merged[key] =
+      Object.hasOwn(shape, key) && objectSchema(shape[key]) && isPlainObject(value) && isPlainObject(current)
+        ? mergeSection(shape[key], current, value)
+        : value;
+  }
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Validate a config, applying defaults. Throws with every problem listed. */
+export function parseDomainConfig(raw: unknown, domain: string): DomainConfig {
+  const result = domainConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const problems = result.error.issues
+      .map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("; ");
+    throw new Error(`Invalid config for domain "${domain}": ${problems}`);
+  }
+  if (result.data.provider === "anthropic" && result.data.temperature > ANTHROPIC_MAX_TEMPERATURE) {
+    throw new Error(
+      `Invalid config for domain "${domain}": temperature: Anthropic accepts at most ${ANTHROPIC_MAX_TEMPERATURE}`,
+    );
+  }
+  return result.data;
+}
@@ -1,54 +1,202 @@
 /**
  * Multi-provider embeddings.
  *
- * Supports: OpenAI, Anthropic (via Voyage), Gemini, AWS Bedrock.
+ * Supports: OpenAI, Anthropic (via Voyage), Gemini, AWS Bedrock, and any
+ * OpenAI-compatible server (Ollama, LM Studio, llama.cpp...).
  * Defaults to OpenAI text-embedding-3-small ($0.02/1M tokens).
+ * Set EMBEDDING_PROVIDER to pick a provider instead of key-based detection.
+ * A domain can pin its own provider and model (see resolveEmbeddingModel).
+ *
+ * Bulk embedding is batched (OpenAI and Gemini accept many inputs per
+ * request), runs a bounded number of requests concurrently, and retries
+ * 429/5xx responses with exponential backoff that honors Retry-After.
  */
 
-type Provider = "openai" | "gemini" | "bedrock";
+export type EmbeddingProvider = "openai" | "gemini" | "bedrock" | "openai-compatible";
+
+const EMBEDDING_PROVIDERS: EmbeddingProvider[] = [
+  "openai",
+  "gemini",
+  "bedrock",
+  "openai-compatible",
+];
 
-function getProvider(): Provider {
+function getProvider(): EmbeddingProvider {
+  const explicit = process.env.EMBEDDING_PROVIDER;
+  if (explicit) {
+    if (!EMBEDDING_PROVIDERS.includes(explicit as EmbeddingProvider)) {
+      throw new Error(
+        `Unknown EMBEDDING_PROVIDER "${explicit}". Use one of: ${EMBEDDING_PROVIDERS.join(", ")}.`,
+      );
+    }
+    return explicit as EmbeddingProvider;
+  }
+  if (process.env.EMBEDDING_BASE_URL) return "openai-compatible";
   if (process.env.OPENAI_API_KEY) return "openai";
   if (process.env.GEMINI_API_KEY) return "gemini";
   if (process.env.AWS_REGION || process.env.AWS_ACCESS_KEY_ID) return "bedrock";
   throw new Error(
-    "No embedding provider configured. Set OPENAI_API_KEY, GEMINI_API_KEY, or AWS credentials.",
+    "No embedding provider configured. Set OPENAI_API_KEY, GEMINI_API_KEY, EMBEDDING_BASE_URL, or AWS credentials.",
   );
 }
 
-async function openaiEmbed(text: string): Promise<number[]> {
-  const key = process.env.OPENAI_API_KEY!;
-  const res = await fetch("https://api.openai.com/v1/embeddings", {
+/** A provider and model, identifying which vector space embeddings live in */
+export interface EmbeddingModel {
+  provider: EmbeddingProvider;
+  model: string;
+}
+
+const DEFAULT_EMBEDDING_MODELS: Record<EmbeddingProvider, string | null> = {
+  openai: "text-embedding-3-small",
+  gemini: "text-embedding-004",
+  bedrock: "amazon.titan-embed-text-v2:0",
+  "openai-compatible": null,
+};
+
+/**
+ * The embedding model to use: the override where given, else
+ * EMBEDDING_PROVIDER / EMBEDDING_MODEL / API keys. EMBEDDING_MODEL only
+ * applies to the provider detected from the environment.
+ */
+export function resolveEmbeddingModel(override: Partial<EmbeddingModel> = {}): EmbeddingModel {
+  const provider = override.provider || getProvider();
+  let envProvider: EmbeddingProvider | null = null;
+  try {
+    envProvider = getProvider();
+  } catch {
+    // Only the override is configured
+  }
+  const model =
+    override.model ||
+    (provider === envProvider ? process.env.EMBEDDING_MODEL : undefined) ||
+    DEFAULT_EMBEDDING_MODELS[provider];
+  if (!model) {
+    throw new Error(
+      "The openai-compatible embedding provider needs EMBEDDING_BASE_URL (e.g. http://localhost:11434/v1) and EMBEDDING_MODEL.",
+    );
+  }
+  return { provider, model };
+}
+
+/** Characters of each text sent to the embedders; the rest is cut */
+export const MAX_EMBED_CHARS = 8000;
+
+const MAX_RETRIES = 5;
+const MAX_BACKOFF_MS = 30_000;
+
+export interface EmbedOptions {
+  /** Inputs per request (default: EMBEDDING_BATCH_SIZE or 64) */
+  batchSize?: number;
+  /** Requests in flight at once (default: EMBEDDING_CONCURRENCY or 4) */
+  concurrency?: number;
+  /** Called after each batch with the number of texts embedded so far */
+  onProgress?: (done: number, total: number) => void;
+  /** Model to embed with (default: resolveEmbeddingModel()) */
+  model?: EmbeddingModel;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** Milliseconds to wait before retry `attempt`, honoring a Retry-After header */
+function backoffMs(attempt: number, retryAfter: string | null): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.min(seconds * 1000, MAX_BACKOFF_MS);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.min(Math.max(date - Date.now(), 0), MAX_BACKOFF_MS);
+  }
+  const base = 500 * 2 ** attempt;
+  return Math.min(base + Math.random() * base * 0.25, MAX_BACKOFF_MS);
+}
+
+/** fetch that retries rate limits, server errors and network failures */
+async function fetchWithRetry(url: string, init: RequestInit): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    let res: Response;
+    try {
+      res = await fetch(url, init);
+    } catch (err) {
+      if (attempt >= MAX_RETRIES) throw err;
+      await sleep(backoffMs(attempt, null));
+      continue;
+    }
+
+    const retryable = res.status === 429 || res.status >= 500;
+    if (!retryable || attempt >= MAX_RETRIES) return res;
+
+    await res.body?.cancel();
+    await sleep(backoffMs(attempt, res.headers.get("retry-after")));
+  }
+}
+
+/** Embeddings endpoint for OpenAI or an OpenAI-compatible server */
+interface OpenAIEndpoint {
+  label: string;
+  baseUrl: string;
+  key?: string;
+  model: string;
+}
+
+function openaiEndpoint(target: EmbeddingModel): OpenAIEndpoint {
+  if (target.provider === "openai") {
+    return {
+      label: "OpenAI",
+      baseUrl: "https://api.openai.com/v1",
+      key: process.env.OPENAI_API_KEY!,
+      model: target.model,
+    };
+  }
+
+  const baseUrl = process.env.EMBEDDING_BASE_URL;
+  if (!baseUrl) {
+    throw new Error(
+      "The openai-compatible embedding provider needs EMBEDDING_BASE_URL (e.g. http://localhost:11434/v1) and EMBEDDING_MODEL.",
+    );
+  }
+  return {
+    label: "OpenAI-compatible",
+    baseUrl: baseUrl.replace(/\/+$/, ""),
+    key: process.env.EMBEDDING_API_KEY,
+    model: target.model,
+  };
+}
+
+async function openaiEmbed(endpoint: OpenAIEndpoint, texts: string[]): Promise<number[][]> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (endpoint.key) headers.Authorization = `Bearer ${endpoint.key}`;
+
+  const res = await fetchWithRetry(`${endpoint.baseUrl}/embeddings`, {
     method: "POST",
-    headers: {
-      Authorization: `Bearer ${key}`,
-      "Content-Type": "application/json",
-    },
+    headers,
     body: JSON.stringify({
-      model: process.env.EMBEDDING_MODEL || "text-embedding-3-small",
-      input: text.slice(0, 8000),
+      model: endpoint.model,
+      input: texts.map((t) => t.slice(0, MAX_EMBED_CHARS)),
     }),
   });
 
   if (!res.ok) {
     const err = await res.text();
-    throw new Error(`OpenAI embeddings failed: ${err}`);
+    throw new Error(`${endpoint.label} embeddings failed: ${err}`);
   }
 
   const data = await res.json();
-  return data.data[0].embedding;
+  return [...data.data]
+    .sort((a: any, b: any) => a.index - b.index)
+    .map((d: any) => d.embedding);
 }
 
-async function geminiEmbed(text: string): Promise<number[]> {
+async function geminiEmbed(model: string, texts: string[]): Promise<number[][]> {
   const key = process.env.GEMINI_API_KEY!;
-  const model = process.env.EMBEDDING_MODEL || "text-embedding-004";
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:embedContent?key=${key}`;
+  const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:batchEmbedContents?key=${key}`;
 
-  const res = await fetch(url, {
+  const res = await fetchWithRetry(url, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
-      content: { parts: [{ text: text.slice(0, 8000) }] },
+      requests: texts.map((text) => ({
+        model: `models/${model}`,
+        content: { parts: [{ text: text.slice(0, MAX_EMBED_CHARS) }] },
+      })),
     }),
   });
 
@@ -58,10 +206,26 @@ async function geminiEmbed(text: string): Promise<number[]> {
   }
 
   const data = await res.json();
-  return data.embedding.values;
+  return data.embeddings.map((e: any) => e.values);
 }
 
-async function bedrockEmbed(text: string): Promise<number[]> {
+/** Bedrock errors worth retrying: throttling and transient server errors */
+function isRetryableBedrockError(err: any): boolean {
+  const status = err?.$metadata?.httpStatusCode;
+  return (
+    !!err?.$retryable ||
+    ["ThrottlingException", "ServiceUnavailableException", "ModelNotReadyException"].includes(err?.name) ||
+    status === 429 ||
+    status >= 500
+  );
+}
+
+/**
+ * Embed texts with Bedrock. Titan embeds one text per call, so the calls
+ * for a batch run one after another: EMBEDDING_CONCURRENCY then bounds the
+ * calls in flight, as it bounds requests for the other providers.
+ */
+async function bedrockEmbed(model: string, texts: string[]): Promise<number[][]> {
   // Dynamic import to avoid requiring aws-sdk when not using bedrock
   const { BedrockRuntimeClient, InvokeModelCommand } = await import(
     "@aws-sdk/client-bedrock-runtime"
@@ -71,26 +235,91 @@ async function bedrockEmbed(text: string): Promise<number[]> {
     region: process.env.AWS_REGION || "us-east-1",
   });
 
-  const command = new InvokeModelCommand({
-    modelId: process.env.EMBEDDING_MODEL || "amazon.titan-embed-text-v2:0",
-    body: JSON.stringify({ inputText: text.slice(0, 8000) }),
-  });
+  const embeddings: number[][] = [];
+  for (const text of texts) {
+    const command = new InvokeModelCommand({
+      modelId: model,
+      body: JSON.stringify({ inputText: text.slice(0, MAX_EMBED_CHARS) }),
+    });
 
-  const response = await client.send(command);
-  const body = JSON.parse(new TextDecoder().decode(response.body));
-  return body.embedding;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await client.send(command);
+        embeddings.push(JSON.parse(new TextDecoder().decode(response.body)).embedding);
+        break;
+      } catch (err) {
+        if (!isRetryableBedrockError(err) || attempt >= MAX_RETRIES) throw err;
+        await sleep(backoffMs(attempt, null));
+      }
+    }
+  }
+  return embeddings;
 }
 
-/** Generate an embedding vector for the given text */
-export async function generateEmbedding(text: string): Promise<number[]> {
-  const provider = getProvider();
-
-  switch (provider) {
+/** Embed one batch with a single request where the provider supports it */
+async function embedBatch(
+  target: EmbeddingModel,
+  texts: string[],
+): Promise<number[][]> {
+  switch (target.provider) {
     case "openai":
-      return openaiEmbed(text);
+    case "openai-compatible":
+      return openaiEmbed(openaiEndpoint(target), texts);
     case "gemini":
-      return geminiEmbed(text);
+      return geminiEmbed(target.model, texts);
     case "bedrock":
-      return bedrockEmbed(text);
+      return bedrockEmbed(target.model, texts);
   }
 }
+
+/** Generate an embedding vector for the given text */
+export async function generateEmbedding(
+  text: string,
+  model: EmbeddingModel = resolveEmbeddingModel(),
+): Promise<number[]> {
+  const [embedding] = await embedBatch(model, [text]);
+  return embedding;
+}
+
+/**
+ * Embed many texts in batches with bounded concurrency.
+ * A failed batch yields an Error for each of its texts instead of
+ * failing the whole run.
+ */
+export async function generateEmbeddings(
+  texts: string[],
+  options: EmbedOptions = {},
+): Promise<Array<number[] | Error>> {
+  const target = options.model || resolveEmbeddingModel();
+  const batchSize = options.batchSize || Number(process.env.EMBEDDING_BATCH_SIZE) || 64;
+  const concurrency = options.concurrency || Number(process.env.EMBEDDING_CONCURRENCY) || 4;
+
+  const batches: number[] = [];
+  for (let i = 0; i < texts.length; i += batchSize) batches.push(i);
+
+  const results: Array<number[] | Error> = new Array(texts.length);
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < batches.length) {
+      const start = batches[next++];
+      const slice = texts.slice(start, start + batchSize);
+      try {
+        const embeddings = await embedBatch(target, slice);
+        if (embeddings.length !== slice.length) {
+          throw new Error(`expected ${slice.length} embeddings, got ${embeddings.length}`);
+        }
+        embeddings.forEach((e, i) => (results[start + i] = e));
+      } catch (err: any) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        slice.forEach((_, i) => (results[start + i] = error));
+      }
+      done += slice.length;
+      options.onProgress?.(done, texts.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, batches.length) }, worker));
+  return results;
+}
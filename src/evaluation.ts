@@ -0,0 +1,399 @@
+/**
+ * Retrieval and answer evaluation against a golden set.
+ *
+ * Each case is a question with the document ids that should be retrieved
+ * and/or facts the answer should contain. A run reports recall@k and MRR
+ * for retrieval and, optionally, LLM-judged correctness (against the
+ * expected facts) and groundedness (against the retrieved context).
+ * Runs are saved to evals/{id}.json under the domain directory, with a
+ * snapshot of the settings used, so configurations can be compared.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import { domainSubdir } from "./vector-store";
+import { retrieve } from "./retrieval";
+import { buildContext, llmOptions } from "./rag";
+import { callLLM, resolveLLM, type LLMOptions } from "./llm";
+import type { DomainConfig } from "./config";
+
+export const evalCaseSchema = z
+  .object({
+    question: z.string().min(1),
+    expectedIds: z
+      .array(z.string())
+      .optional()
+      .describe("Document ids that should be retrieved for this question"),
+    expectedFacts: z
+      .array(z.string())
+      .optional()
+      .describe("Facts a correct answer must state"),
+  })
+  .refine((c) => c.expectedIds?.length || c.expectedFacts?.length, {
+    message: "each case needs expectedIds and/or expectedFacts",
+  });
+
+export type EvalCase = z.infer<typeof evalCaseSchema>;
+
+export interface EvalCaseResult {
+  question: string;
+  expectedIds: string[];
+  expectedFacts: string[];
+  retrieved: Array<{ id: string; score: number }>;
+  /** Share of expected ids in the top k; null without expected ids */
+  recall: number | null;
+  /** 1 / rank of the first expected id (0 if none retrieved); null without expected ids */
+  reciprocalRank: number | null;
+  answer?: string;
+  /** 0–1: how many expected facts the answer states; null without expected facts */
+  correctness?: number | null;
+  /** 0–1: how much of the answer the retrieved context supports */
+  groundedness?: number | null;
+  missingFacts?: string[];
+  judgeNotes?: string;
+  error?: string;
+}
+
+export interface EvalSummary {
+  cases: number;
+  recallAtK: number | null;
+  mrr: number | null;
+  correctness: number | null;
+  groundedness: number | null;
+  errors: number;
+}
+
+export interface EvalRun {
+  id: string;
+  domain: string;
+  label?: string;
+  createdAt: string;
+  k: number;
+  judged: boolean;
+  /** The settings the run used */
+  settings: {
+    searchMode: string;
+    topK: number;
+    minScore: number;
+    contextBudget: number;
+    provider: string | null;
+    model: string | null;
+    temperature: number;
+    systemPrompt: string;
+  };
+  summary: EvalSummary;
+  results: EvalCaseResult[];
+}
+
+export interface EvalOptions {
+  /** Documents retrieved per question for recall@k and MRR (default: the domain's topK) */
+  k?: number;
+  /** Generate answers and have an LLM grade them */
+  judge?: boolean;
+  /** Provider/model for the judge (default: the domain's) */
+  judgeOptions?: LLMOptions;
+  label?: string;
+  onProgress?: (done: number, total: number) => void;
+}
+
+const JUDGE_PROMPT = `You grade answers from a retrieval-augmented assistant.
+Reply with a single JSON object and nothing else:
+{"correctness": number|null, "groundedness": number, "missingFacts": string[], "notes": string}
+- correctness: fraction (0 to 1) of the EXPECTED FACTS the answer states, or null if none are given. Paraphrases count.
+- groundedness: fraction (0 to 1) of the answer's claims supported by the CONTEXT. An answer that only says it doesn't know is fully grounded.
+- missingFacts: expected facts the answer does not state.
+- notes: one short sentence.`;
+
+function evalsDir(domain: string): string {
+  return domainSubdir(domain, "evals");
+}
+
+/** Load cases from a JSON array (optionally wrapped as { cases: [...] }) or JSON Lines file */
+export function loadEvalCases(file: string): EvalCase[] {
+  const raw = fs.readFileSync(file, "utf-8").trim();
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    data = raw
+      .split("\n")
+      .filter((l) => l.trim())
+      .map((l) => JSON.parse(l));
+  }
+  if (!Array.isArray(data)) data = data?.cases ?? [data];
+  return parseEvalCases(data);
+}
+
+/** Validate cases. Throws with every problem listed. */
+export function parseEvalCases(data: unknown): EvalCase[] {
+  const result = z.array(evalCaseSchema).min(1).safeParse(data);
+  if (!result.success) {
+    const problems = result.error.issues
+      .map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("; ");
+    throw new Error(`Invalid evaluation cases: ${problems}`);
+  }
+  return result.data;
+}
+
+function mean(values: Array<number | null | undefined>): number | null {
+  const present = values.filter((v): v is number => typeof v === "number");
+  return present.length > 0 ? present.reduce((a, b) => a + b, 0) / present.length : null;
+}
+
+/** Clamp a judge score to 0–1, or null */
+function score(value: unknown): number | null {
+  return typeof value === "number" && isFinite(value) ? Math.min(1, Math.max(0, value)) : null;
+}
+
+async function judgeAnswer(
+  question: string,
+  facts: string[],
+  context: string,
+  answer: string,
+  options: LLMOptions,
+): Promise<Pick<EvalCaseResult, "correctness" | "groundedness" | "missingFacts" | "judgeNotes">> {
+  const message = [
+    `QUESTION:\n${question}`,
+    `EXPECTED FACTS:\n${facts.length > 0 ? facts.map((f) => `- ${f}`).join("\n") : "(none given)"}`,
+    `CONTEXT:\n${context || "(no context retrieved)"}`,
+    `ANSWER:\n${answer}`,
+  ].join("\n\n");
+
+  const reply = await callLLM(JUDGE_PROMPT, [], message, { ...options, temperature: 0, maxTokens: 400 });
+  const json = reply.match(/\{[\s\S]*\}/);
+  if (!json) throw new Error(`Judge did not return JSON: ${reply.slice(0, 200)}`);
+  const verdict = JSON.parse(json[0]);
+
+  return {
+    correctness: facts.length > 0 ? score(verdict.correctness) : null,
+    groundedness: score(verdict.groundedness),
+    missingFacts:
+      facts.length > 0 && Array.isArray(verdict.missingFacts) ? verdict.missingFacts.map(String) : [],
+    judgeNotes: typeof verdict.notes === "string" ? verdict.notes : undefined,
+  };
+}
+
+async function evaluateCase(
+  domain: string,
+  config: DomainConfig,
+  c: EvalCase,
+  k: number,
+  options: EvalOptions,
+): Promise<EvalCaseResult> {
+  const expectedIds = c.expectedIds || [];
+  const expectedFacts = c.expectedFacts || [];
+  const result: EvalCaseResult = {
+    question: c.question,
+    expectedIds,
+    expectedFacts,
+    retrieved: [],
+    recall: null,
+    reciprocalRank: null,
+  };
+
+  try {
+    const found = await retrieve(domain, c.question, {
+      mode: config.searchMode,
+      limit: k,
+      minScore: config.minScore,
+      embedding: config.embedding,
+    });
+    result.retrieved = found.map((r) => ({ id: r.id, score: r.score }));
+
+    if (expectedIds.length > 0) {
+      const ids = found.map((r) => r.id);
+      result.recall = expectedIds.filter((id) => ids.includes(id)).length / expectedIds.length;
+      const rank = ids.findIndex((id) => expectedIds.includes(id));
+      result.reciprocalRank = rank >= 0 ? 1 / (rank + 1) : 0;
+    }
+
+    if (options.judge) {
+      const { results, systemPrompt, reply } = await buildContext(domain, config, c.question);
+      // Blocked and fallback questions get the canned reply, as visitors would see
+      result.answer = reply ?? (await callLLM(systemPrompt, [], c.question, llmOptions(config)));
+      const context = results.map((r, i) => `[${i + 1}] ${r.title}\n${r.content}`).join("\n\n");
+      Object.assign(
+        result,
+        await judgeAnswer(
+          c.question,
+          expectedFacts,
+          context,
+          result.answer,
+          options.judgeOptions || llmOptions(config),
+        ),
+      );
+    }
+  } catch (err: any) {
+    result.error = err.message;
+  }
+  return result;
+}
+
+/** Run a golden set against a domain with the given (possibly overridden) config */
+export async function runEvaluation(
+  domain: string,
+  config: DomainConfig,
+  cases: EvalCase[],
+  options: EvalOptions = {},
+): Promise<EvalRun> {
+  const k = options.k || config.topK;
+  const results: EvalCaseResult[] = [];
+  // Sequential, so provider rate limits aren't hammered by a large set
+  for (const c of cases) {
+    results.push(await evaluateCase(domain, config, c, k, options));
+    options.onProgress?.(results.length, cases.length);
+  }
+
+  let model = config.model;
+  try {
+    model = resolveLLM(llmOptions(config)).model || model;
+  } catch {
+    // No provider configured; keep the configured name
+  }
+
+  const createdAt = new Date().toISOString();
+  return {
+    id: `${createdAt.replace(/[:.]/g, "-")}${options.label ? `-${options.label.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 40)}` : ""}`,
+    domain,
+    ...(options.label ? { label: options.label } : {}),
+    createdAt,
+    k,
+    judged: !!options.judge,
+    settings: {
+      searchMode: config.searchMode,
+      topK: config.topK,
+      minScore: config.minScore,
+      contextBudget: config.contextBudget,
+      provider: config.provider,
+      model,
+      temperature: config.temperature,
+      systemPrompt: config.systemPrompt,
+    },
+    summary: {
+      cases: results.length,
+      recallAtK: mean(results.map((r) => r.recall)),
+      mrr: mean(results.map((r) => r.reciprocalRank)),
+      correctness: mean(results.map((r) => r.correctness)),
+      groundedness: mean(results.map((r) => r.groundedness)),
+      errors: results.filter((r) => r.error).length,
+    },
+    results,
+  };
+}
+
+export function saveEvalRun(domain: string, run: EvalRun): void {
+  fs.writeFileSync(path.join(evalsDir(domain), `${run.id}.json`), JSON.stringify(run, null, 2));
+}
+
+/** Saved runs, oldest first */
+export function listEvalRuns(domain: string): EvalRun[] {
+  const dir = evalsDir(domain);
+  return fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith(".json"))
+    .sort()
+    .map((f) => JSON.parse(fs.readFileSync(path.join(dir, f), "utf-8")) as EvalRun);
+}
+
+export function loadEvalRun(domain: string, id: string): EvalRun {
+  const file = path.join(evalsDir(domain), `${path.basename(id)}.json`);
+  if (!fs.existsSync(file)) throw new Error(`No evaluation run "${id}" for "${domain}"`);
+  return JSON.parse(fs.readFileSync(file, "utf-8"));
+}
+
+// ============ FORMATTING ============
+
+function pct(value: number | null | undefined): string {
+  return typeof value === "number" ? `${(value * 100).toFixed(1)}%` : "—";
+}
+
+function num(value: number | null | undefined): string {
+  return typeof value === "number" ? value.toFixed(3) : "—";
+}
+
+function delta(a: number | null, b: number | null, asPercent: boolean): string {
+  if (a === null || b === null) return "";
+  const d = b - a;
+  if (Math.abs(d) < 1e-9) return " (=)";
+  return ` (${d > 0 ? "+" : ""}${asPercent ? `${(d * 100).toFixed(1)}pp` : d.toFixed(3)})`;
+}
+
+/** Human-readable run report, for tool output */
+export function formatEvalRun(run: EvalRun): string {
+  const { summary: s, settings } = run;
+  const lines = [
+    `**Evaluation: ${run.domain}**${run.label ? ` (${run.label})` : ""}`,
+    `Run: ${run.id}`,
+    `Settings: ${settings.searchMode}, topK ${settings.topK}, minScore ${settings.minScore}, model ${settings.provider || "auto"} / ${settings.model || "default"}`,
+    "",
+    `Cases: ${s.cases}${s.errors > 0 ? ` (${s.errors} errors)` : ""}`,
+    `Recall@${run.k}: ${pct(s.recallAtK)}`,
+    `MRR: ${num(s.mrr)}`,
+  ];
+  if (run.judged) {
+    lines.push(`Correctness: ${pct(s.correctness)}`, `Groundedness: ${pct(s.groundedness)}`);
+  }
+
+  lines.push("", "**Cases:**");
+  for (const r of run.results) {
+    const parts = [
+      r.recall !== null ? `recall ${pct(r.recall)}` : null,
+      r.reciprocalRank !== null ? `RR ${num(r.reciprocalRank)}` : null,
+      r.correctness != null ? `correct ${pct(r.correctness)}` : null,
+      r.groundedness != null ? `grounded ${pct(r.groundedness)}` : null,
+    ].filter(Boolean);
+    lines.push(`- "${r.question}" — ${r.error ? `error: ${r.error}` : parts.join(", ") || "no metrics"}`);
+    const missed = r.expectedIds.filter((id) => !r.retrieved.some((d) => d.id === id));
+    if (missed.length > 0) lines.push(`  Not retrieved: ${missed.join(", ")}`);
+    if (r.missingFacts?.length) lines.push(`  Missing facts: ${r.missingFacts.join("; ")}`);
+  }
+  return lines.join("\n");
+}
+
+/** Side-by-side comparison of two runs (a = baseline, b = candidate) */
+export function formatEvalComparison(a: EvalRun, b: EvalRun): string {
+  const row = (label: string, x: string, y: string, d = "") => `| ${label} | ${x} | ${y}${d} |`;
+  const lines = [
+    `**Comparison: ${a.domain}**`,
+    "",
+    `| | ${a.label || a.id} | ${b.label || b.id} |`,
+    "|---|---|---|",
+  ];
+
+  const keys = Object.keys(a.settings) as Array<keyof EvalRun["settings"]>;
+  for (const key of keys) {
+    const x = String(a.settings[key]);
+    const y = String(b.settings[key]);
+    if (x === y) continue;
+    lines.push(key === "systemPrompt" ? row(key, `${x.length} chars`, `${y.length} chars`) : row(key, x, y));
+  }
+
+  lines.push(
+    row("cases", String(a.summary.cases), String(b.summary.cases)),
+    row(`recall@k (k=${a.k}/${b.k})`, pct(a.summary.recallAtK), pct(b.summary.recallAtK), delta(a.summary.recallAtK, b.summary.recallAtK, true)),
+    row("MRR", num(a.summary.mrr), num(b.summary.mrr), delta(a.summary.mrr, b.summary.mrr, false)),
+  );
+  if (a.judged || b.judged) {
+    lines.push(
+      row("correctness", pct(a.summary.correctness), pct(b.summary.correctness), delta(a.summary.correctness, b.summary.correctness, true)),
+      row("groundedness", pct(a.summary.groundedness), pct(b.summary.groundedness), delta(a.summary.groundedness, b.summary.groundedness, true)),
+    );
+  }
+
+  // Questions whose retrieval got better or worse
+  const before = new Map(a.results.map((r) => [r.question, r]));
+  const changes: string[] = [];
+  for (const r of b.results) {
+    const prev = before.get(r.question);
+    if (!prev || prev.reciprocalRank === null || r.reciprocalRank === null) continue;
+    if (r.reciprocalRank !== prev.reciprocalRank) {
+      changes.push(
+        `- ${r.reciprocalRank > prev.reciprocalRank ? "better" : "worse"}: "${r.question}" (RR ${num(prev.reciprocalRank)} → ${num(r.reciprocalRank)})`,
+      );
+    }
+  }
+  if (changes.length > 0) lines.push("", "**Retrieval changes:**", ...changes);
+  return lines.join("\n");
+}
@@ -0,0 +1,135 @@
+/**
+ * Visitor feedback on chat replies.
+ *
+ * Ratings are appended to feedback/ratings.jsonl under the domain
+ * directory, each with the query, reply and sources taken from the
+ * server-side session (not from the client). A visitor can change their
+ * mind: the latest rating for a message wins.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { domainSubdir } from "./vector-store";
+import type { AnalyticsRange } from "./analytics";
+
+export type Rating = "up" | "down";
+
+export interface FeedbackRecord {
+  at: string;
+  sessionId: string;
+  messageId: string;
+  rating: Rating;
+  comment?: string;
+  query: string;
+  reply: string;
+  sources: string[];
+}
+
+export interface SourceRating {
+  id: string;
+  up: number;
+  down: number;
+}
+
+export interface FeedbackSummary {
+  up: number;
+  down: number;
+  /** Down-rated replies, most recent first */
+  worst: FeedbackRecord[];
+  /** Documents behind down-rated replies, most down-rated first */
+  sources: SourceRating[];
+}
+
+function feedbackPath(domain: string): string {
+  return path.join(domainSubdir(domain, "feedback"), "ratings.jsonl");
+}
+
+/** Append one rating */
+export function saveFeedback(domain: string, record: FeedbackRecord): void {
+  fs.appendFileSync(feedbackPath(domain), `${JSON.stringify(record)}\n`);
+}
+
+/** Latest rating per message within a time range, oldest first */
+export function loadFeedback(domain: string, range?: AnalyticsRange): FeedbackRecord[] {
+  const file = feedbackPath(domain);
+  if (!fs.existsSync(file)) return [];
+
+  const latest = new Map<string, FeedbackRecord>();
+  for (const line of fs.readFileSync(file, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const record: FeedbackRecord = JSON.parse(line);
+      latest.delete(record.messageId);
+      latest.set(record.messageId, record);
+    } catch {
+      // Skip a line torn by a crash mid-write
+    }
+  }
+
+  const records = [...latest.values()];
+  if (!range) return records;
+  return records.filter((r) => {
+    const at = new Date(r.at);
+    return at >= range.since && at <= range.until;
+  });
+}
+
+/** Tally ratings and rank the worst replies and the documents behind them */
+export function summarizeFeedback(records: FeedbackRecord[], limit = 10): FeedbackSummary {
+  const bySource = new Map<string, SourceRating>();
+  for (const r of records) {
+    for (const id of r.sources) {
+      const tally = bySource.get(id) || { id, up: 0, down: 0 };
+      tally[r.rating]++;
+      bySource.set(id, tally);
+    }
+  }
+
+  const down = records.filter((r) => r.rating === "down");
+  return {
+    up: records.length - down.length,
+    down: down.length,
+    worst: down.reverse().slice(0, limit),
+    sources: [...bySource.values()]
+      .filter((s) => s.down > 0)
+      .sort((a, b) => b.down - a.down || a.up - b.up || a.id.localeCompare(b.id))
+      .slice(0, limit),
+  };
+}
+
+function snippet(text: string, max = 200): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max)}...` : flat;
+}
+
+/** Human-readable summary, for tool output */
+export function formatFeedback(domain: string, summary: FeedbackSummary): string {
+  const total = summary.up + summary.down;
+  const lines = [
+    `**Feedback: ${domain}**`,
+    "",
+    `Ratings: ${total} (${summary.up} up, ${summary.down} down${total > 0 ? `, ${((summary.up / total) * 100).toFixed(0)}% positive` : ""})`,
+  ];
+
+  if (summary.sources.length > 0) {
+    lines.push(
+      "",
+      "**Documents behind down-rated answers:**",
+      ...summary.sources.map((s) => `- ${s.id}: ${s.down} down, ${s.up} up`),
+    );
+  }
+
+  if (summary.worst.length > 0) {
+    lines.push("", "**Down-rated answers:**");
+    for (const r of summary.worst) {
+      lines.push(
+        "",
+        `${r.at} — Q: "${snippet(r.query)}"`,
+        `A: ${snippet(r.reply)}`,
+        `Sources: ${r.sources.length > 0 ? r.sources.join(", ") : "none"}`,
+      );
+      if (r.comment) lines.push(`Comment: ${r.comment}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,176 @@
+/**
+ * Guardrails against prompt injection and off-topic use.
+ *
+ * Visitor messages and knowledge base documents are untrusted text. Three
+ * layers keep them from steering the assistant:
+ *   - Delimiting: retrieved documents reach the model fenced in <document>
+ *     tags, with an instruction to treat them as data (see rag.ts)
+ *   - Injection detection: common injection phrasings ("ignore previous
+ *     instructions", fake role tags, requests for the system prompt) in a
+ *     message get it blocked or flagged; documents are checked on ingest
+ *     and, optionally, left out of the context
+ *   - Topic scope: messages too far from the knowledge base (embedding
+ *     similarity) or judged out of scope by an LLM classifier are
+ *     redirected with a canned reply
+ *
+ * Blocked messages never reach the answering model and are logged in
+ * analytics with the reason.
+ */
+
+import { EmbeddingMismatchError } from "./vector-store";
+import { retrieve } from "./retrieval";
+import { callLLM, type LLMOptions } from "./llm";
+import type { DomainConfig } from "./config";
+
+export type GuardReason = "injection" | "off-topic";
+
+export interface GuardVerdict {
+  /** "blocked": answered with a canned reply; "flagged": answered as usual, but logged */
+  action: "allowed" | "flagged" | "blocked";
+  reason?: GuardReason;
+  /** What triggered it: pattern names, a similarity score, the classifier's reason */
+  detail?: string;
+  /** The canned reply, when blocked */
+  reply?: string;
+}
+
+const ALLOWED: GuardVerdict = { action: "allowed" };
+
+/**
+ * Phrasings that try to override the assistant's instructions. Kept
+ * specific, since a false positive refuses a real visitor.
+ */
+const INJECTION_PATTERNS: Array<{ name: string; pattern: RegExp }> = [
+  {
+    name: "ignore-instructions",
+    pattern:
+      /\b(ignore|disregard|forget|override|bypass)\b.{0,40}\b(previous|prior|above|earlier|preceding|original|system|your)\b.{0,20}\b(instructions?|prompts?|rules|directions|guidelines)\b/,
+  },
+  {
+    name: "reveal-prompt",
+    pattern:
+      /\b(reveal|show|print|repeat|output|display|tell me|what (is|are|were)|give me|leak)\b.{0,30}\b(system prompt|initial prompt|hidden prompt|(original|initial|hidden|secret|system) instructions|instructions you (were|have been) given|(text|words|everything) above)\b/,
+  },
+  {
+    name: "role-override",
+    pattern:
+      /\b(you are now|from now on,? you|act as|pretend (to be|you are)|roleplay as)\b.{0,60}\b(unrestricted|unfiltered|jailbroken|dan|developer mode|no (rules|restrictions|limits|filters))\b/,
+  },
+  {
+    name: "jailbreak",
+    pattern: /\b(jailbreak|do anything now|developer mode (enabled|on)|dan mode)\b/,
+  },
+  {
+    name: "fake-role-tag",
+    pattern: /<\|?(im_start|im_end|system|endoftext)\|?>|\[\/?inst\]|<\/?(system|assistant)>|###\s*(system|instruction)/,
+  },
+  {
+    name: "new-instructions",
+    pattern: /\b(new|updated|real|actual) (system )?(instructions|prompt|rules)\s*:/,
+  },
+];
+
+/** Lowercase, fold look-alike characters, drop zero-width ones and collapse whitespace */
+function normalize(text: string): string {
+  return text
+    .normalize("NFKC")
+    .replace(/[\u200B-\u200D\u2060\uFEFF]/g, "")
+    .replace(/\s+/g, " ")
+    .toLowerCase();
+}
+
+/** Names of the injection patterns a text matches (empty when it looks clean) */
+export function detectInjection(text: string): string[] {
+  const normalized = normalize(text);
+  return INJECTION_PATTERNS.filter((p) => p.pattern.test(normalized)).map((p) => p.name);
+}
+
+/** Check a visitor's message for injection attempts, per the domain's guardrails */
+export function checkInjection(config: DomainConfig, message: string): GuardVerdict {
+  const { injection, replies } = config.guardrails;
+  if (injection === "off") return ALLOWED;
+  const patterns = detectInjection(message);
+  if (patterns.length === 0) return ALLOWED;
+  return {
+    action: injection === "block" ? "blocked" : "flagged",
+    reason: "injection",
+    detail: patterns.join(", "),
+    ...(injection === "block" ? { reply: replies.injection } : {}),
+  };
+}
+
+/** Messages this short ("hi", "thanks!") are small talk, not off-topic questions */
+const SMALL_TALK_WORDS = 2;
+
+function classifierPrompt(scope: string): string {
+  return `You decide whether a message sent to a website's assistant is within the assistant's scope.
+SCOPE:
+${scope}
+
+Greetings, thanks and questions about the assistant itself are in scope.
+Reply with a single JSON object and nothing else:
+{"onTopic": boolean, "reason": string}`;
+}
+
+/**
+ * Check that a query is within the domain's topic scope. Checks that fail
+ * (embedder or classifier down) let the message through.
+ */
+export async function checkTopic(
+  domain: string,
+  config: DomainConfig,
+  query: string,
+  options: LLMOptions,
+): Promise<GuardVerdict> {
+  const { topic, replies } = config.guardrails;
+  const offTopic = (detail: string): GuardVerdict => ({
+    action: "blocked",
+    reason: "off-topic",
+    detail,
+    reply: replies.offTopic,
+  });
+
+  if (topic.mode === "similarity") {
+    if (query.trim().split(/\s+/).length <= SMALL_TALK_WORDS) return ALLOWED;
+    try {
+      const [best] = await retrieve(domain, query, {
+        mode: "vector",
+        limit: 1,
+        minScore: 0,
+        embedding: config.embedding,
+      });
+      const score = best?.score ?? 0;
+      if (score < topic.minSimilarity) {
+        return offTopic(`similarity ${score.toFixed(2)} < ${topic.minSimilarity}`);
+      }
+    } catch (err) {
+      if (err instanceof EmbeddingMismatchError) throw err;
+    }
+    return ALLOWED;
+  }
+
+  if (topic.mode === "classifier") {
+    try {
+      const reply = await callLLM(classifierPrompt(topic.description || config.systemPrompt), [], query, {
+        ...options,
+        temperature: 0,
+        maxTokens: 100,
+      });
+      const json = reply.match(/\{[\s\S]*\}/);
+      if (!json) throw new Error("no JSON in reply");
+      const parsed = JSON.parse(json[0]);
+      if (parsed.onTopic === false) {
+        return offTopic(typeof parsed.reason === "string" && parsed.reason ? parsed.reason : "classifier");
+      }
+    } catch {
+      // Classifier unavailable: answering beats refusing everyone
+    }
+  }
+  return ALLOWED;
+}
+
+/** One-line description of a verdict, for tool and CLI output */
+export function formatGuardVerdict(guard: GuardVerdict): string {
+  if (guard.action === "allowed") return "passed";
+  return `${guard.action} (${guard.reason}${guard.detail ? `: ${guard.detail}` : ""})`;
+}
@@ -0,0 +1,214 @@
+/**
+ * Human handoff after a low-confidence answer.
+ *
+ * When a domain gives its fallback answer (see rag.ts) and has
+ * fallback.handoff.webhookUrl set, the widget offers to collect the
+ * visitor's email. POST /handoff then sends the email and the session
+ * transcript to the webhook as JSON, with these headers:
+ *
+ *   X-RagChat-Event:     handoff
+ *   X-RagChat-Delivery:  delivery id, the same across retries
+ *   X-RagChat-Timestamp: unix seconds of this attempt
+ *   X-RagChat-Signature: sha256=<hex HMAC-SHA256 of "{timestamp}.{body}", keyed with the secret>
+ *
+ * Receivers should recompute the signature and reject old timestamps.
+ * Network errors, 408, 429 and 5xx responses are retried with exponential
+ * backoff. Each delivery's outcome is appended to handoffs/deliveries.jsonl
+ * under the domain directory.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { createHmac, randomUUID } from "crypto";
+import { domainSubdir } from "./vector-store";
+import type { AnalyticsRange } from "./analytics";
+import type { DomainConfig } from "./config";
+import type { ChatSession } from "./sessions";
+
+export interface HandoffPayload {
+  event: "handoff";
+  /** Delivery id, also sent in X-RagChat-Delivery */
+  id: string;
+  domain: string;
+  sessionId: string;
+  email: string;
+  note?: string;
+  createdAt: string;
+  transcript: Array<{ role: "user" | "assistant"; text: string; at: string }>;
+}
+
+export interface HandoffDelivery {
+  at: string;
+  id: string;
+  sessionId: string;
+  email: string;
+  status: "delivered" | "failed";
+  attempts: number;
+  /** HTTP status of the last attempt, if it got a response */
+  httpStatus?: number;
+  error?: string;
+}
+
+const MAX_ATTEMPTS = 5;
+const ATTEMPT_TIMEOUT_MS = 10_000;
+
+const EMAIL = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+/** Deliveries still retrying, so shutdown can wait for them */
+const pending = new Set<Promise<HandoffDelivery>>();
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** Loose email check: something@host.tld, without spaces or angle brackets */
+export function isEmail(value: string): boolean {
+  return value.length <= 254 && EMAIL.test(value);
+}
+
+/** Signature header value for a request body sent at `timestamp` (unix seconds) */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+function deliveriesPath(domain: string): string {
+  return path.join(domainSubdir(domain, "handoffs"), "deliveries.jsonl");
+}
+
+/** Webhook body for a session */
+export function handoffPayload(
+  domain: string,
+  session: ChatSession,
+  email: string,
+  note?: string,
+): HandoffPayload {
+  return {
+    event: "handoff",
+    id: randomUUID(),
+    domain,
+    sessionId: session.id,
+    email,
+    ...(note ? { note } : {}),
+    createdAt: new Date().toISOString(),
+    transcript: session.messages.map(({ role, text, at }) => ({ role, text, at })),
+  };
+}
+
+/**
+ * POST a payload to a webhook, signing each attempt and retrying transient
+ * failures. Never throws; the outcome says whether it got through.
+ */
+export async function deliverWebhook(
+  url: string,
+  secret: string,
+  payload: HandoffPayload,
+  { attempts = MAX_ATTEMPTS, backoffMs = 1000 }: { attempts?: number; backoffMs?: number } = {},
+): Promise<Pick<HandoffDelivery, "status" | "attempts" | "httpStatus" | "error">> {
+  const body = JSON.stringify(payload);
+  for (let attempt = 1; ; attempt++) {
+    let httpStatus: number | undefined;
+    let error: string;
+    try {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const res = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "mcp-ragchat",
+          "X-RagChat-Event": payload.event,
+          "X-RagChat-Delivery": payload.id,
+          "X-RagChat-Timestamp": String(timestamp),
+          "X-RagChat-Signature": signWebhook(secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(ATTEMPT_TIMEOUT_MS),
+      });
+      await res.body?.cancel();
+      httpStatus = res.status;
+      if (res.ok) return { status: "delivered", attempts: attempt, httpStatus };
+      error = `HTTP ${res.status}`;
+      const retryable = res.status === 408 || res.status === 429 || res.status >= 500;
+      if (!retryable) return { status: "failed", attempts: attempt, httpStatus, error };
+    } catch (err: any) {
+      error = err.message;
+    }
+    if (attempt >= attempts) {
+      return { status: "failed", attempts: attempt, ...(httpStatus ? { httpStatus } : {}), error };
+    }
+    await sleep(backoffMs * 2 ** (attempt - 1));
+  }
+}
+
+/**
+ * Send a session to the domain's handoff webhook and log the outcome.
+ * Resolves once delivered or out of retries.
+ */
+export function sendHandoff(
+  domain: string,
+  config: DomainConfig,
+  session: ChatSession,
+  email: string,
+  note?: string,
+): Promise<HandoffDelivery> {
+  const { webhookUrl, secret } = config.fallback.handoff;
+  if (!webhookUrl || !secret) throw new Error(`Handoff is not configured for "${domain}"`);
+
+  const payload = handoffPayload(domain, session, email, note);
+  const delivery = deliverWebhook(webhookUrl, secret, payload).then((outcome) => {
+    const record: HandoffDelivery = {
+      at: new Date().toISOString(),
+      id: payload.id,
+      sessionId: session.id,
+      email,
+      ...outcome,
+    };
+    try {
+      fs.appendFileSync(deliveriesPath(domain), `${JSON.stringify(record)}\n`);
+    } catch {
+      // Unwritable log — the delivery itself already happened or failed
+    }
+    return record;
+  });
+  pending.add(delivery);
+  delivery.finally(() => pending.delete(delivery));
+  return delivery;
+}
+
+/** Wait for deliveries still in progress */
+export async function settleHandoffs(): Promise<void> {
+  await Promise.allSettled([...pending]);
+}
+
+/** Handoff deliveries logged within a time range, oldest first */
+export function loadHandoffs(domain: string, range?: AnalyticsRange): HandoffDelivery[] {
+  const file = deliveriesPath(domain);
+  if (!fs.existsSync(file)) return [];
+
+  const records: HandoffDelivery[] = [];
+  for (const line of fs.readFileSync(file, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const record: HandoffDelivery = JSON.parse(line);
+      const at = new Date(record.at);
+      if (!range || (at >= range.since && at <= range.until)) records.push(record);
+    } catch {
+      // Skip a line torn by a crash mid-write
+    }
+  }
+  return records;
+}
+
+/** Delivery counts and recent failures, for tool output */
+export function formatHandoffs(records: HandoffDelivery[], limit = 10): string {
+  const failed = records.filter((r) => r.status === "failed");
+  const lines = [`Handoffs: ${records.length} (${records.length - failed.length} delivered, ${failed.length} failed)`];
+  if (failed.length > 0) {
+    lines.push(
+      "",
+      "**Failed handoffs:**",
+      ...failed
+        .slice(-limit)
+        .reverse()
+        .map((r) => `- ${r.at} ${r.email} (session ${r.sessionId}): ${r.error} after ${r.attempts} attempts`),
+    );
+  }
+  return lines.join("\n");
+}
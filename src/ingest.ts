@@ -0,0 +1,344 @@
+/**
+ * Local file ingestion.
+ *
+ * Walks a file or directory, filters by glob include/exclude patterns,
+ * and parses each file into chunks that remember their source path:
+ *   .md / .mdx     — markdown (MDX imports/exports and JSX tags removed)
+ *   .html / .htm   — main content only; scripts, styles and navigation stripped
+ *   .txt           — plain text
+ *   .json / .csv   — FAQ entries (question + answer)
+ *
+ * JSON files are only read when an include pattern names them, since most
+ * JSON in a docs tree (package.json, tsconfig.json, ...) is not an FAQ.
+ *
+ * With a baseUrl, each chunk also gets the public URL of its file, so
+ * answers can link to it.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { chunkMarkdown, type Chunk, type ChunkOptions } from "./chunking";
+
+export const DEFAULT_INCLUDE = [
+  "**/*.md",
+  "**/*.mdx",
+  "**/*.html",
+  "**/*.htm",
+  "**/*.txt",
+  "**/*.csv",
+];
+
+export const DEFAULT_EXCLUDE = ["**/node_modules/**", "**/.git/**"];
+
+export interface IngestResult {
+  root: string;
+  files: string[];
+  chunks: Chunk[];
+  dropped: Array<{ title: string; reason: string }>;
+  errors: Array<{ file: string; error: string }>;
+  /** Patterns the files were matched with */
+  include: string[];
+  exclude: string[];
+}
+
+// ============ GLOBS ============
+
+/** Convert a glob (`**`, `*`, `?`, `{a,b}`) into an anchored regex */
+export function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*") {
+      if (glob[i + 1] === "*") {
+        // `**/` matches zero or more directories
+        if (glob[i + 2] === "/") {
+          re += "(?:.*/)?";
+          i += 2;
+        } else {
+          re += ".*";
+          i += 1;
+        }
+      } else {
+        re += "[^/]*";
+      }
+    } else if (c === "?") {
+      re += "[^/]";
+    } else if (c === "{") {
+      const end = glob.indexOf("}", i);
+      if (end < 0) {
+        re += "\\{";
+        continue;
+      }
+      const options = glob.slice(i + 1, end).split(",");
+      re += `(?:${options.map((o) => o.replace(/[.+^$()|[\]\\]/g, "\\$&")).join("|")})`;
+      i = end;
+    } else {
+      re += c.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/** Path of `file` relative to root, with forward slashes */
+function relativePath(root: string, file: string): string {
+  return path.relative(root, file).split(path.sep).join("/");
+}
+
+function matches(rel: string, inc: RegExp[], exc: RegExp[]): boolean {
+  return inc.some((re) => re.test(rel)) && !exc.some((re) => re.test(rel));
+}
+
+/** List files under root (or root itself) matching include and not exclude */
+function collectFiles(root: string, include: string[], exclude: string[]): string[] {
+  const stat = fs.statSync(root);
+  if (stat.isFile()) return [root];
+
+  const inc = include.map(globToRegExp);
+  const exc = exclude.map(globToRegExp);
+  const files: string[] = [];
+
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const full = path.join(dir, entry.name);
+      const rel = relativePath(root, full);
+      if (entry.isDirectory()) {
+        if (!exc.some((re) => re.test(`${rel}/`) || re.test(`${rel}/x`))) walk(full);
+      } else if (entry.isFile()) {
+        if (matches(rel, inc, exc)) files.push(full);
+      }
+    }
+  };
+  walk(root);
+
+  return files.sort();
+}
+
+// ============ PARSERS ============
+
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: '"',
+    apos: "'",
+    nbsp: " ",
+  };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, e: string) => {
+    if (e[0] === "#") {
+      const code = e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : m;
+    }
+    return named[e.toLowerCase()] ?? m;
+  });
+}
+
+/** Reduce an HTML page to markdown-ish text: headings, list items and paragraphs */
+export function htmlToMarkdown(html: string): string {
+  let body = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|svg|nav|header|footer|aside|form)\b[\s\S]*?<\/\1>/gi, "");
+
+  const main = body.match(/<(main|article)\b[^>]*>([\s\S]*?)<\/\1>/i);
+  if (main) body = main[2];
+  else {
+    const b = body.match(/<body\b[^>]*>([\s\S]*?)<\/body>/i);
+    if (b) body = b[1];
+  }
+
+  const text = body
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, inner) =>
+      `\n\n${"#".repeat(Number(level))} ${inner.replace(/<[^>]+>/g, "").trim()}\n\n`,
+    )
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|section|ul|ol|table|tr|pre|blockquote)>/gi, "\n\n")
+    .replace(/<\/t[dh]>/gi, " | ")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeEntities(text)
+    .split("\n")
+    .map((l) => l.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/** Strip MDX-only syntax (imports, exports, JSX component tags) outside code fences */
+function mdxToMarkdown(mdx: string): string {
+  let inFence = false;
+  return mdx
+    .split("\n")
+    .filter((line) => {
+      if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+      return inFence || !/^(import|export)\s/.test(line);
+    })
+    .join("\n")
+    .replace(/<\/?[A-Z][\w.]*(\s[^>]*)?\/?>/g, "");
+}
+
+/** Minimal RFC 4180 CSV parser */
+function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      if (row.some((f) => f.trim())) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  row.push(field);
+  if (row.some((f) => f.trim())) rows.push(row);
+
+  return rows;
+}
+
+function faqChunk(question: string, answer: string, source: string): Chunk {
+  return { title: question.trim(), text: `${question.trim()}\n\n${answer.trim()}`, source };
+}
+
+/**
+ * JSON FAQ: an array of { question, answer } (or { q, a }),
+ * optionally wrapped as { faq: [...] }, { faqs: [...] } or { questions: [...] }.
+ */
+function parseFaqJSON(text: string, source: string): Chunk[] {
+  const data = JSON.parse(text);
+  const entries = Array.isArray(data) ? data : data?.faq || data?.faqs || data?.questions;
+  if (!Array.isArray(entries)) {
+    throw new Error("expected an array of { question, answer } entries");
+  }
+  return entries
+    .map((e: any) => ({ q: e?.question ?? e?.q, a: e?.answer ?? e?.a }))
+    .filter((e) => typeof e.q === "string" && typeof e.a === "string")
+    .map((e) => faqChunk(e.q, e.a, source));
+}
+
+/** CSV FAQ: `question` and `answer` header columns, else the first two columns */
+function parseFaqCSV(text: string, source: string): Chunk[] {
+  const rows = parseCSV(text);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((h) => h.trim().toLowerCase());
+  let qi = header.indexOf("question");
+  let ai = header.indexOf("answer");
+  let body = rows.slice(1);
+  if (qi < 0 || ai < 0) {
+    qi = 0;
+    ai = 1;
+    body = rows;
+  }
+
+  return body
+    .filter((r) => r[qi]?.trim() && r[ai]?.trim())
+    .map((r) => faqChunk(r[qi], r[ai], source));
+}
+
+// ============ URLS ============
+
+/**
+ * Public URL of a file: its path under root appended to baseUrl, with
+ * markdown, text and FAQ extensions dropped and `index` mapped to its
+ * directory (docs/pricing.md → {baseUrl}/docs/pricing).
+ */
+export function pageUrl(root: string, file: string, baseUrl: string): string {
+  const rel = file === root ? path.basename(file) : path.relative(root, file).split(path.sep).join("/");
+  const page = rel.replace(/\.(md|mdx|txt|json|csv)$/i, "").replace(/(^|\/)index$/, "$1");
+  return `${baseUrl.replace(/\/+$/, "")}/${page.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+// ============ ENTRY POINT ============
+
+/** Parse one file into chunks */
+export function parseFile(
+  file: string,
+  chunking: ChunkOptions = {},
+): { chunks: Chunk[]; dropped: Array<{ title: string; reason: string }> } {
+  const raw = fs.readFileSync(file, "utf-8");
+  const ext = path.extname(file).toLowerCase();
+
+  if (ext === ".json") return { chunks: parseFaqJSON(raw, file), dropped: [] };
+  if (ext === ".csv") return { chunks: parseFaqCSV(raw, file), dropped: [] };
+
+  let markdown: string;
+  if (ext === ".html" || ext === ".htm") markdown = htmlToMarkdown(raw);
+  else if (ext === ".mdx") markdown = mdxToMarkdown(raw);
+  else markdown = raw;
+
+  // Headerless files become one section titled by the file name
+  if (!/^#{1,6}\s/m.test(markdown)) {
+    markdown = `## ${path.basename(file, ext)}\n${markdown}`;
+  }
+
+  const report = chunkMarkdown(markdown, chunking);
+  return {
+    chunks: report.chunks.map((c) => ({ ...c, source: file })),
+    dropped: report.dropped.map((d) => ({ title: `${file}: ${d.title}`, reason: d.reason })),
+  };
+}
+
+/** Collect and parse every matching file under a path */
+export function ingestPath(
+  target: string,
+  options: { include?: string[]; exclude?: string[]; chunking?: ChunkOptions; baseUrl?: string } = {},
+): IngestResult {
+  const root = path.resolve(target);
+  if (!fs.existsSync(root)) throw new Error(`Path not found: ${root}`);
+
+  const include = options.include?.length ? options.include : DEFAULT_INCLUDE;
+  const exclude = options.exclude?.length ? options.exclude : DEFAULT_EXCLUDE;
+  const files = collectFiles(root, include, exclude);
+
+  const result: IngestResult = { root, files, chunks: [], dropped: [], errors: [], include, exclude };
+  for (const file of files) {
+    try {
+      const parsed = parseFile(file, options.chunking);
+      const url = options.baseUrl ? pageUrl(root, file, options.baseUrl) : undefined;
+      result.chunks.push(...parsed.chunks.map((c) => (url ? { ...c, url } : c)));
+      result.dropped.push(...parsed.dropped);
+    } catch (err: any) {
+      result.errors.push({ file, error: err.message });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Whether a previously ingested file belongs to this ingest, so a sync may
+ * update or remove its documents: under the root and matching the same
+ * patterns. Files that failed to parse are left alone rather than treated
+ * as deleted.
+ */
+export function coversFile(ingest: IngestResult, file: string): boolean {
+  if (ingest.errors.some((e) => e.file === file)) return false;
+  if (file === ingest.root) return true;
+  if (!file.startsWith(ingest.root + path.sep)) return false;
+  return matches(
+    relativePath(ingest.root, file),
+    ingest.include.map(globToRegExp),
+    ingest.exclude.map(globToRegExp),
+  );
+}
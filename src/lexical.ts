@@ -0,0 +1,94 @@
+/**
+ * BM25 keyword index.
+ *
+ * Complements vector search for exact matches (SKUs, error codes, names)
+ * that embeddings tend to blur. The index is plain JSON so it can live
+ * next to documents.json. Terms are object keys, so lookups check own
+ * properties only: "constructor" is a word, not Object.prototype's.
+ */
+
+export interface LexicalIndex {
+  version: 1;
+  docCount: number;
+  avgLength: number;
+  /** Number of documents each term appears in */
+  df: Record<string, number>;
+  docs: Array<{ id: string; length: number; tf: Record<string, number> }>;
+}
+
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Lowercase word tokens. Compound tokens like "ERR-404" or "sku_12.b"
+ * are kept whole and also split into their parts.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const matches = text.toLowerCase().match(/[\p{L}\p{N}]+(?:[-_.][\p{L}\p{N}]+)*/gu);
+  for (const m of matches || []) {
+    tokens.push(m);
+    if (/[-_.]/.test(m)) tokens.push(...m.split(/[-_.]/));
+  }
+  return tokens;
+}
+
+/** Build a BM25 index over document titles and contents */
+export function buildLexicalIndex(
+  docs: Array<{ id: string; title: string; content: string }>,
+): LexicalIndex {
+  const df: Record<string, number> = Object.create(null);
+  let totalLength = 0;
+
+  const entries = docs.map((doc) => {
+    const tokens = tokenize(`${doc.title}\n${doc.content}`);
+    const tf: Record<string, number> = Object.create(null);
+    for (const t of tokens) tf[t] = (tf[t] || 0) + 1;
+    for (const t of Object.keys(tf)) df[t] = (df[t] || 0) + 1;
+    totalLength += tokens.length;
+    return { id: doc.id, length: tokens.length, tf };
+  });
+
+  return {
+    version: 1,
+    docCount: docs.length,
+    avgLength: docs.length > 0 ? totalLength / docs.length : 0,
+    df,
+    docs: entries,
+  };
+}
+
+/** Count of a term in a table, ignoring inherited properties */
+function count(table: Record<string, number>, term: string): number {
+  return Object.hasOwn(table, term) ? table[term] : 0;
+}
+
+/** Score documents against a query, best first. Only docs sharing a term are returned. */
+export function searchLexicalIndex(
+  index: LexicalIndex,
+  query: string,
+  limit: number,
+): Array<{ id: string; score: number }> {
+  const terms = [...new Set(tokenize(query))].filter((t) => count(index.df, t) > 0);
+  if (terms.length === 0 || index.docCount === 0) return [];
+
+  const idf = new Map<string, number>();
+  for (const t of terms) {
+    const n = count(index.df, t);
+    idf.set(t, Math.log(1 + (index.docCount - n + 0.5) / (n + 0.5)));
+  }
+
+  const scored: Array<{ id: string; score: number }> = [];
+  for (const doc of index.docs) {
+    let score = 0;
+    for (const t of terms) {
+      const f = count(doc.tf, t);
+      if (!f) continue;
+      const norm = 1 - B + B * (doc.length / (index.avgLength || 1));
+      score += idf.get(t)! * ((f * (K1 + 1)) / (f + K1 * norm));
+    }
+    if (score > 0) scored.push({ id: doc.id, score });
+  }
+
+  return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -1,66 +1,167 @@
 /**
  * Multi-provider LLM calls.
  *
- * Supports: OpenAI, Anthropic, Gemini.
- * Auto-detects based on which API key is set.
+ * Supports: OpenAI, Anthropic, Gemini, and any OpenAI-compatible server
+ * (Ollama, LM Studio, llama.cpp, vLLM...).
+ * Auto-detects based on which API key is set, unless LLM_PROVIDER is given.
+ * Each provider has a blocking call and a streaming variant.
  */
 
-type LLMProvider = "openai" | "anthropic" | "gemini";
+export type LLMProvider = "openai" | "anthropic" | "gemini" | "openai-compatible";
+
+const LLM_PROVIDERS: LLMProvider[] = ["openai", "anthropic", "gemini", "openai-compatible"];
+
+/** Highest temperature the Anthropic API accepts (the others go to 2) */
+export const ANTHROPIC_MAX_TEMPERATURE = 1;
+
+/** Models used when neither the options nor LLM_MODEL name one */
+const DEFAULT_MODELS: Partial<Record<LLMProvider, string>> = {
+  openai: "gpt-4o-mini",
+  anthropic: "claude-sonnet-4-5-20250929",
+  gemini: "gemini-2.0-flash",
+};
 
 export interface ChatMessage {
   role: "user" | "assistant";
   text: string;
 }
 
-function getLLMProvider(): LLMProvider {
+/** Per-call overrides; unset values fall back to env vars and provider defaults */
+export interface LLMOptions {
+  provider?: LLMProvider | null;
+  model?: string | null;
+  temperature?: number;
+  maxTokens?: number;
+  /** Cancels the provider request, e.g. when the visitor goes away mid-stream */
+  signal?: AbortSignal;
+}
+
+/** Resolved generation settings passed to each provider call */
+interface Generation {
+  model?: string;
+  temperature: number;
+  maxTokens: number;
+  signal?: AbortSignal;
+}
+
+/** Chat completions endpoint for OpenAI or an OpenAI-compatible server */
+interface OpenAIEndpoint {
+  label: string;
+  baseUrl: string;
+  key?: string;
+  model: string;
+}
+
+function getLLMProvider(override?: LLMProvider | null): LLMProvider {
+  if (override) return override;
+  const explicit = process.env.LLM_PROVIDER;
+  if (explicit) {
+    if (!LLM_PROVIDERS.includes(explicit as LLMProvider)) {
+      throw new Error(
+        `Unknown LLM_PROVIDER "${explicit}". Use one of: ${LLM_PROVIDERS.join(", ")}.`,
+      );
+    }
+    return explicit as LLMProvider;
+  }
+  if (process.env.LLM_BASE_URL) return "openai-compatible";
   if (process.env.ANTHROPIC_API_KEY) return "anthropic";
   if (process.env.OPENAI_API_KEY) return "openai";
   if (process.env.GEMINI_API_KEY) return "gemini";
   throw new Error(
-    "No LLM provider configured. Set OPENAI_API_KEY, ANTHROPIC_API_KEY, or GEMINI_API_KEY.",
+    "No LLM provider configured. Set OPENAI_API_KEY, ANTHROPIC_API_KEY, GEMINI_API_KEY, or LLM_BASE_URL.",
   );
 }
 
+function openaiEndpoint(
+  provider: "openai" | "openai-compatible",
+  model?: string,
+): OpenAIEndpoint {
+  if (provider === "openai") {
+    return {
+      label: "OpenAI",
+      baseUrl: "https://api.openai.com/v1",
+      key: process.env.OPENAI_API_KEY!,
+      model: model || process.env.LLM_MODEL || DEFAULT_MODELS.openai!,
+    };
+  }
+
+  const baseUrl = process.env.LLM_BASE_URL;
+  model = model || process.env.LLM_MODEL;
+  if (!baseUrl || !model) {
+    throw new Error(
+      "The openai-compatible LLM provider needs LLM_BASE_URL (e.g. http://localhost:11434/v1) and LLM_MODEL.",
+    );
+  }
+  return {
+    label: "OpenAI-compatible",
+    baseUrl: baseUrl.replace(/\/+$/, ""),
+    key: process.env.LLM_API_KEY,
+    model,
+  };
+}
+
+function generation(options: LLMOptions): Generation {
+  return {
+    model: options.model || undefined,
+    temperature: options.temperature ?? 0.7,
+    maxTokens: options.maxTokens ?? 512,
+    signal: options.signal,
+  };
+}
+
+function openaiHeaders(endpoint: OpenAIEndpoint): Record<string, string> {
+  return endpoint.key
+    ? { Authorization: `Bearer ${endpoint.key}`, "Content-Type": "application/json" }
+    : { "Content-Type": "application/json" };
+}
+
 async function callOpenAI(
+  endpoint: OpenAIEndpoint,
   systemPrompt: string,
   history: ChatMessage[],
   message: string,
+  gen: Generation,
 ): Promise<string> {
-  const key = process.env.OPENAI_API_KEY!;
-  const model = process.env.LLM_MODEL || "gpt-4o-mini";
-
   const messages = [
     { role: "system", content: systemPrompt },
     ...history.map((h) => ({ role: h.role, content: h.text })),
     { role: "user", content: message },
   ];
 
-  const res = await fetch("https://api.openai.com/v1/chat/completions", {
+  const res = await fetch(`${endpoint.baseUrl}/chat/completions`, {
     method: "POST",
-    headers: {
-      Authorization: `Bearer ${key}`,
-      "Content-Type": "application/json",
-    },
+    headers: openaiHeaders(endpoint),
     body: JSON.stringify({
-      model,
+      model: endpoint.model,
       messages,
-      max_tokens: 512,
-      temperature: 0.7,
+      max_tokens: gen.maxTokens,
+      temperature: gen.temperature,
     }),
+    signal: gen.signal,
   });
 
-  if (!res.ok) throw new Error(`OpenAI API error: ${await res.text()}`);
+  if (!res.ok) throw new Error(`${endpoint.label} API error: ${await res.text()}`);
   const data = await res.json();
   return data.choices[0]?.message?.content || "No response generated.";
 }
 
+/**
+ * Anthropic accepts temperatures up to 1. Configs pinned to Anthropic are
+ * checked on save; one that reaches it through LLM_PROVIDER or the API keys
+ * is clamped rather than failing every message.
+ */
+function anthropicTemperature(gen: Generation): number {
+  return Math.min(gen.temperature, ANTHROPIC_MAX_TEMPERATURE);
+}
+
 async function callAnthropic(
   systemPrompt: string,
   history: ChatMessage[],
   message: string,
+  gen: Generation,
 ): Promise<string> {
   const key = process.env.ANTHROPIC_API_KEY!;
-  const model = process.env.LLM_MODEL || "claude-sonnet-4-5-20250929";
+  const model = gen.model || process.env.LLM_MODEL || DEFAULT_MODELS.anthropic!;
 
   const messages = [
     ...history.map((h) => ({ role: h.role, content: h.text })),
@@ -78,8 +179,10 @@ async function callAnthropic(
       model,
       system: systemPrompt,
       messages,
-      max_tokens: 512,
+      max_tokens: gen.maxTokens,
+      temperature: anthropicTemperature(gen),
     }),
+    signal: gen.signal,
   });
 
   if (!res.ok) throw new Error(`Anthropic API error: ${await res.text()}`);
@@ -91,9 +194,10 @@ async function callGemini(
   systemPrompt: string,
   history: ChatMessage[],
   message: string,
+  gen: Generation,
 ): Promise<string> {
   const key = process.env.GEMINI_API_KEY!;
-  const model = process.env.LLM_MODEL || "gemini-2.0-flash";
+  const model = gen.model || process.env.LLM_MODEL || DEFAULT_MODELS.gemini!;
   const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${key}`;
 
   const contents = [
@@ -110,8 +214,9 @@ async function callGemini(
     body: JSON.stringify({
       system_instruction: { parts: [{ text: systemPrompt }] },
       contents,
-      generationConfig: { maxOutputTokens: 512, temperature: 0.7 },
+      generationConfig: { maxOutputTokens: gen.maxTokens, temperature: gen.temperature },
     }),
+    signal: gen.signal,
   });
 
   if (!res.ok) throw new Error(`Gemini API error: ${await res.text()}`);
@@ -119,20 +224,191 @@ async function callGemini(
   return data.candidates?.[0]?.content?.parts?.[0]?.text || "No response generated.";
 }
 
+/** The provider and model a call with these options would use */
+export function resolveLLM(options: LLMOptions = {}): { provider: LLMProvider; model: string } {
+  const provider = getLLMProvider(options.provider);
+  const model = options.model || process.env.LLM_MODEL || DEFAULT_MODELS[provider] || "";
+  return { provider, model };
+}
+
 /** Call the configured LLM with RAG context */
 export async function callLLM(
   systemPrompt: string,
   history: ChatMessage[],
   message: string,
+  options: LLMOptions = {},
 ): Promise<string> {
-  const provider = getLLMProvider();
+  const provider = getLLMProvider(options.provider);
+  const gen = generation(options);
+
+  switch (provider) {
+    case "openai":
+    case "openai-compatible":
+      return callOpenAI(openaiEndpoint(provider, gen.model), systemPrompt, history, message, gen);
+    case "anthropic":
+      return callAnthropic(systemPrompt, history, message, gen);
+    case "gemini":
+      return callGemini(systemPrompt, history, message, gen);
+  }
+}
+
+// ============ STREAMING ============
+
+/** Parse a server-sent event stream into its `data:` payloads */
+async function* readSSE(res: Response): AsyncGenerator<string> {
+  if (!res.body) return;
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, boundary).replace(/\r$/, "");
+      buffer = buffer.slice(boundary + 1);
+      if (line.startsWith("data:")) yield line.slice(5).trim();
+    }
+  }
+
+  if (buffer.startsWith("data:")) yield buffer.slice(5).trim();
+}
+
+async function* streamOpenAI(
+  endpoint: OpenAIEndpoint,
+  systemPrompt: string,
+  history: ChatMessage[],
+  message: string,
+  gen: Generation,
+): AsyncGenerator<string> {
+  const messages = [
+    { role: "system", content: systemPrompt },
+    ...history.map((h) => ({ role: h.role, content: h.text })),
+    { role: "user", content: message },
+  ];
+
+  const res = await fetch(`${endpoint.baseUrl}/chat/completions`, {
+    method: "POST",
+    headers: openaiHeaders(endpoint),
+    body: JSON.stringify({
+      model: endpoint.model,
+      messages,
+      max_tokens: gen.maxTokens,
+      temperature: gen.temperature,
+      stream: true,
+    }),
+    signal: gen.signal,
+  });
+
+  if (!res.ok) throw new Error(`${endpoint.label} API error: ${await res.text()}`);
+  for await (const data of readSSE(res)) {
+    if (data === "[DONE]") break;
+    const text = JSON.parse(data).choices?.[0]?.delta?.content;
+    if (text) yield text;
+  }
+}
+
+async function* streamAnthropic(
+  systemPrompt: string,
+  history: ChatMessage[],
+  message: string,
+  gen: Generation,
+): AsyncGenerator<string> {
+  const key = process.env.ANTHROPIC_API_KEY!;
+  const model = gen.model || process.env.LLM_MODEL || DEFAULT_MODELS.anthropic!;
+
+  const messages = [
+    ...history.map((h) => ({ role: h.role, content: h.text })),
+    { role: "user", content: message },
+  ];
+
+  const res = await fetch("https://api.anthropic.com/v1/messages", {
+    method: "POST",
+    headers: {
+      "x-api-key": key,
+      "anthropic-version": "2023-06-01",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model,
+      system: systemPrompt,
+      messages,
+      max_tokens: gen.maxTokens,
+      temperature: anthropicTemperature(gen),
+      stream: true,
+    }),
+    signal: gen.signal,
+  });
+
+  if (!res.ok) throw new Error(`Anthropic API error: ${await res.text()}`);
+  for await (const data of readSSE(res)) {
+    const event = JSON.parse(data);
+    if (event.type === "content_block_delta" && event.delta?.text) {
+      yield event.delta.text;
+    } else if (event.type === "error") {
+      throw new Error(`Anthropic API error: ${event.error?.message}`);
+    } else if (event.type === "message_stop") {
+      break;
+    }
+  }
+}
+
+async function* streamGemini(
+  systemPrompt: string,
+  history: ChatMessage[],
+  message: string,
+  gen: Generation,
+): AsyncGenerator<string> {
+  const key = process.env.GEMINI_API_KEY!;
+  const model = gen.model || process.env.LLM_MODEL || DEFAULT_MODELS.gemini!;
+  const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse&key=${key}`;
+
+  const contents = [
+    ...history.map((h) => ({
+      role: h.role === "assistant" ? "model" : "user",
+      parts: [{ text: h.text }],
+    })),
+    { role: "user", parts: [{ text: message }] },
+  ];
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      system_instruction: { parts: [{ text: systemPrompt }] },
+      contents,
+      generationConfig: { maxOutputTokens: gen.maxTokens, temperature: gen.temperature },
+    }),
+    signal: gen.signal,
+  });
+
+  if (!res.ok) throw new Error(`Gemini API error: ${await res.text()}`);
+  for await (const data of readSSE(res)) {
+    const text = JSON.parse(data).candidates?.[0]?.content?.parts?.[0]?.text;
+    if (text) yield text;
+  }
+}
+
+/** Stream the configured LLM's reply token by token */
+export function streamLLM(
+  systemPrompt: string,
+  history: ChatMessage[],
+  message: string,
+  options: LLMOptions = {},
+): AsyncGenerator<string> {
+  const provider = getLLMProvider(options.provider);
+  const gen = generation(options);
 
   switch (provider) {
     case "openai":
-      return callOpenAI(systemPrompt, history, message);
+    case "openai-compatible":
+      return streamOpenAI(openaiEndpoint(provider, gen.model), systemPrompt, history, message, gen);
     case "anthropic":
-      return callAnthropic(systemPrompt, history, message);
+      return streamAnthropic(systemPrompt, history, message, gen);
     case "gemini":
-      return callGemini(systemPrompt, history, message);
+      return streamGemini(systemPrompt, history, message, gen);
   }
 }
@@ -4,12 +4,29 @@
  * Tools:
  *   ragchat_setup     — Initialize a domain from markdown content
  *   ragchat_test      — Test chat with a message
- *   ragchat_serve     — Start the chat HTTP server
- *   ragchat_widget    — Generate embeddable chat widget HTML
+ *   ragchat_serve     — Serve a domain from the chat HTTP server
+ *   ragchat_stop      — Stop serving a domain
+ *   ragchat_config    — View or update a domain's model and retrieval settings
+ *   ragchat_widget    — Get the widget embed code and set its look and text
  *   ragchat_status    — List configured domains and stats
+ *   ragchat_ingest    — Ingest local files or directories
+ *   ragchat_documents — List a domain's documents
+ *   ragchat_document  — Show one document
+ *   ragchat_upsert    — Add or replace a single document
+ *   ragchat_delete    — Delete documents by id, or a whole domain
+ *   ragchat_analytics — Summarize logged chat traffic
+ *   ragchat_feedback  — List the worst-rated answers
+ *   ragchat_keys      — Create, list or revoke API keys
+ *   ragchat_eval      — Evaluate retrieval and answers against a golden set
+ *   ragchat_eval_compare — Compare two saved evaluation runs
+ *   ragchat_index     — Inspect, rebuild or verify a domain's vector index
+ *   ragchat_reembed   — Re-embed a domain with another embedding model
+ *   ragchat_export    — Export a domain as a portable bundle file
+ *   ragchat_import    — Import a bundle file as a new or existing domain
  *
  * Usage:
- *   node dist/mcp-server.js
+ *   node dist/mcp-server.js            — MCP server on stdio
+ *   node dist/mcp-server.js serve ...  — standalone CLI (see cli.ts)
  *
  * Claude Code config (~/.claude/mcp.json):
  *   {
@@ -23,35 +40,94 @@
  *   }
  */
 
+import * as fs from "fs";
+import * as path from "path";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import {
   addDocument,
+  getDocument,
+  deleteDocuments,
+  deleteDomain,
   saveDomainConfig,
   loadDomainConfig,
   listDomains,
-  searchByEmbedding,
   loadVectors,
-  type VectorDocument,
+  assertEmbeddingModel,
+  measureAnnRecall,
+  rebuildVectorIndex,
+  vectorIndexInfo,
 } from "./vector-store";
-import { generateEmbedding } from "./embeddings";
-import { callLLM, type ChatMessage } from "./llm";
-import { startChatServer, stopChatServer } from "./chat-server";
-import { generateWidget } from "./widget";
+import { answer } from "./rag";
+import { chunkMarkdown, formatChunkReport } from "./chunking";
+import {
+  chunkingSchema,
+  domainSettingsSchema,
+  mergeSettings,
+  NEW_DOMAIN_SEARCH_MODE,
+  parseDomainConfig,
+  type DomainConfig,
+} from "./config";
+import { syncDocuments, formatSyncReport, hashText, reembedDocuments, stableId } from "./sync";
+import { generateEmbedding, resolveEmbeddingModel } from "./embeddings";
+import { coversFile, ingestPath } from "./ingest";
+import { startChatServer, stopChatServer, listServedDomains, chatServerUrl } from "./chat-server";
+import { DEFAULT_WIDGET_STRINGS, widgetEmbed } from "./widget";
+import { detectInjection, formatGuardVerdict } from "./guardrails";
+import { runCli, CLI_COMMANDS } from "./cli";
+import { formatAnalytics, parseTimeBound, readExchanges, summarizeExchanges } from "./analytics";
+import { formatFeedback, loadFeedback, summarizeFeedback } from "./feedback";
+import { formatHandoffs, loadHandoffs } from "./handoff";
+import { generateKey } from "./access";
+import { exportBundle, formatImportReport, importBundle, readBundle } from "./bundle";
+import {
+  evalCaseSchema,
+  formatEvalComparison,
+  formatEvalRun,
+  listEvalRuns,
+  loadEvalCases,
+  loadEvalRun,
+  parseEvalCases,
+  runEvaluation,
+  saveEvalRun,
+} from "./evaluation";
 
 // ============ HELPERS ============
 
-/** Split markdown by ## headers into sections */
-function splitMarkdown(
-  content: string,
-): Array<{ title: string; text: string }> {
-  const sections = content.split(/^## /m).filter((s) => s.trim());
-  return sections.map((section) => {
-    const title = section.split("\n")[0].trim();
-    const text = section.substring(title.length).trim();
-    return { title, text };
-  });
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/** Progress callback that sends MCP progress notifications, if the client asked for them */
+function progressReporter(extra: ToolExtra, label: string) {
+  const progressToken = extra._meta?.progressToken;
+  return (done: number, total: number) => {
+    if (progressToken === undefined) return;
+    extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress: done, total, message: `${label} ${done}/${total}` },
+      })
+      .catch(() => {
+        // Progress is best-effort
+      });
+  };
+}
+
+/** Shorten a credential to its ends, enough to tell keys apart */
+function maskKey(key: string): string {
+  return `${key.slice(0, 6)}...${key.slice(-4)}`;
+}
+
+/** A domain config with its credentials masked, for tool output */
+function maskedConfig(config: DomainConfig): DomainConfig {
+  const { handoff } = config.fallback;
+  return {
+    ...config,
+    ...(config.secretKeys ? { secretKeys: config.secretKeys.map(maskKey) } : {}),
+    fallback: { ...config.fallback, handoff: { ...handoff, secret: handoff.secret && maskKey(handoff.secret) } },
+  };
 }
 
 // ============ MCP SERVER ============
@@ -74,7 +150,7 @@ const server = new McpServer(
 
 server.tool(
   "ragchat_setup",
-  "Initialize a domain with a knowledge base from markdown content. Each ## section becomes a searchable document with vector embeddings. This is the first step — run this before testing or serving.",
+  "Initialize a domain with a knowledge base from markdown content. By default each ## section becomes a searchable document with vector embeddings; pass `chunking` for heading-hierarchy, size-bounded or structure-aware splitting. This is the first step — run this before testing or serving.",
   {
     domain: z
       .string()
@@ -82,63 +158,71 @@ server.tool(
     content: z
       .string()
       .describe(
-        "Markdown content with ## headers. Each section becomes a searchable document. Minimum 50 chars per section.",
+        "Markdown content with ## headers. Each section becomes a searchable document. Minimum 50 chars per section (see chunking.minChars).",
       ),
     systemPrompt: z
       .string()
       .describe(
         "System prompt for the chat assistant (e.g. 'You are the Acme support agent. Answer questions about Acme products.')",
       ),
+    searchMode: z
+      .enum(["vector", "keyword", "hybrid"])
+      .optional()
+      .describe(
+        "Retrieval mode: 'vector' (embeddings only), 'keyword' (BM25 only) or 'hybrid' (both, fused). Default for a new domain: 'hybrid'; re-runs keep the current mode. Hybrid catches exact SKUs, error codes and names.",
+      ),
+    chunking: chunkingSchema
+      .optional()
+      .describe("How to split the content into documents. Saved with the domain."),
+    mode: z
+      .enum(["sync", "reset"])
+      .optional()
+      .describe(
+        "'sync' (default): only embed new or changed sections and delete sections that are gone. 'reset': drop all documents and embed everything again.",
+      ),
   },
-  async ({ domain, content, systemPrompt }) => {
+  async ({ domain, content, systemPrompt, searchMode, chunking, mode }, extra) => {
     try {
-      const sections = splitMarkdown(content);
-      const validSections = sections.filter((s) => s.text.length >= 50);
+      const previous = loadDomainConfig(domain);
+      const chunkOptions = chunking || previous?.chunking || {};
+      const report = chunkMarkdown(content, chunkOptions);
+      const validSections = report.chunks;
+      const reportText = formatChunkReport(report);
 
       if (validSections.length === 0) {
         return {
           content: [
             {
               type: "text" as const,
-              text: "No sections found with enough content (min 50 chars). Use ## headers to split your content.",
+              text: `No sections found with enough content (min ${chunkOptions.minChars ?? 50} chars). Use ## headers to split your content, or pick another chunking strategy.${reportText ? `\n\n${reportText}` : ""}`,
             },
           ],
         };
       }
 
-      // Save domain config
+      // Save domain config, keeping other settings and the creation date on re-runs
       saveDomainConfig(domain, {
+        ...previous,
         domain,
         systemPrompt,
-        createdAt: new Date().toISOString(),
+        searchMode: searchMode || previous?.searchMode || NEW_DOMAIN_SEARCH_MODE,
+        chunking: chunkOptions,
+        createdAt: previous?.createdAt || new Date().toISOString(),
       });
 
-      // Embed and store each section
-      let seeded = 0;
-      const errors: string[] = [];
-
-      for (let i = 0; i < validSections.length; i++) {
-        const { title, text } = validSections[i];
-        try {
-          const embedding = await generateEmbedding(text);
-          const doc: VectorDocument = {
-            id: `${domain}-${i + 1}`,
-            title,
-            content: text,
-            embedding,
-            createdAt: new Date().toISOString(),
-          };
-          addDocument(domain, doc);
-          seeded++;
-        } catch (err: any) {
-          errors.push(`"${title}": ${err.message}`);
-        }
-      }
+      // Pasted content owns the documents that weren't ingested from files
+      const sync = await syncDocuments(domain, validSections, {
+        reset: mode === "reset",
+        scope: (doc) => !doc.source,
+        onProgress: progressReporter(extra, "Embedding sections"),
+      });
+      const seeded = validSections.length - sync.failed.length;
 
       let result = `Domain "${domain}" configured with ${seeded}/${validSections.length} documents.`;
-      if (errors.length > 0) {
-        result += `\n\nErrors:\n${errors.join("\n")}`;
+      if (reportText) {
+        result += `\n\nChunking (${chunkOptions.strategy || "sections"}):\n${reportText}`;
       }
+      result += `\n\nSync (${mode || "sync"}):\n${formatSyncReport(sync)}`;
       result += `\n\nNext steps:\n1. ragchat_test — send a test message\n2. ragchat_serve — start the chat server\n3. ragchat_widget — get the embed code`;
 
       return { content: [{ type: "text" as const, text: result }] };
@@ -155,14 +239,23 @@ server.tool(
 
 server.tool(
   "ragchat_test",
-  "Send a test message to a domain's chat. Uses RAG search + LLM to generate a response, same as production. Good for verifying the knowledge base works.",
+  "Send a test message to a domain's chat. Uses RAG search + LLM to generate a response, same as production. Good for verifying the knowledge base works. Pass earlier turns as history to test follow-up questions; the output shows the search query retrieval actually ran and the path the answer took (model, low-confidence fallback or guardrail block).",
   {
     domain: z.string().describe("Domain to test"),
     message: z
       .string()
       .describe("Test message (e.g. 'What is your product?')"),
+    history: z
+      .array(
+        z.object({
+          role: z.enum(["user", "assistant"]),
+          text: z.string(),
+        }),
+      )
+      .optional()
+      .describe("Earlier turns of the conversation, oldest first"),
   },
-  async ({ domain, message }) => {
+  async ({ domain, message, history }) => {
     try {
       const config = loadDomainConfig(domain);
       if (!config) {
@@ -176,36 +269,22 @@ server.tool(
         };
       }
 
-      const startMs = Date.now();
-
-      // RAG search
-      let ragContext = "";
-      let sources: string[] = [];
-      try {
-        const queryEmbed = await generateEmbedding(message);
-        const results = searchByEmbedding(domain, queryEmbed, 3);
-        if (results.length > 0) {
-          ragContext = results.map((r) => r.content).join("\n---\n");
-          sources = results.map(
-            (r) => `${r.id} (${r.score.toFixed(2)})`,
-          );
-        }
-      } catch {
-        // RAG failure
-      }
-
-      const systemPrompt = ragContext
-        ? `${config.systemPrompt}\n\nRELEVANT CONTEXT:\n${ragContext}\n\nUse this context to answer accurately.`
-        : config.systemPrompt;
-
-      const reply = await callLLM(systemPrompt, [], message);
-      const latencyMs = Date.now() - startMs;
+      const { reply, results, citations, plan, guard, path, latencyMs } = await answer(domain, message, history);
+      const sources = results.map(
+        (r) => `${r.id} (${r.score.toFixed(2)})${r.source ? ` [${r.source}]` : ""}`,
+      );
+      const cited = citations.map(
+        (c) => `[${c.n}] ${c.title}${c.url || c.source ? ` — ${c.url || c.source}` : ""}`,
+      );
+      let search = `"${plan.query}"${plan.rewritten ? " (rewritten)" : ""}`;
+      if (plan.variants.length > 0) search += `\nVariants: ${plan.variants.map((v) => `"${v}"`).join(", ")}`;
+      if (plan.note) search += `\nNote: ${plan.note}`;
 
       return {
         content: [
           {
             type: "text" as const,
-            text: `**Test: ${domain}**\n\nQuery: "${message}"\n\n**Reply:**\n${reply}\n\n**RAG Sources:** ${sources.length > 0 ? sources.join(", ") : "none"}\n**Latency:** ${latencyMs}ms`,
+            text: `**Test: ${domain}**\n\nQuery: "${message}"\n\n**Reply:**\n${reply}\n\n**Citations:**${cited.length > 0 ? `\n${cited.join("\n")}` : " none"}\n\n**Search query:** ${search}\n**RAG Sources:** ${sources.length > 0 ? sources.join(", ") : "none"}\n**Guardrails:** ${formatGuardVerdict(guard)}\n**Path:** ${path}\n**Retrieval:** ${config.searchMode}, topK ${config.topK}, minScore ${config.minScore}\n**Model:** ${config.provider || "auto"} / ${config.model || "default"}\n**Latency:** ${latencyMs}ms`,
           },
         ],
       };
@@ -222,15 +301,21 @@ server.tool(
 
 server.tool(
   "ragchat_serve",
-  "Start a local HTTP chat server for a domain. The server runs on localhost and handles POST /chat requests. Use ragchat_widget to get the embed code that connects to this server.",
+  "Serve a domain from the local HTTP chat server. One server hosts every served domain at /d/{domain}/chat; the first call starts it, later calls add domains without a restart. Use ragchat_widget to get the embed code that connects to this server.",
   {
     domain: z.string().describe("Domain to serve"),
     port: z
       .number()
       .optional()
-      .describe("Port to listen on (default: 3456)"),
+      .describe("Port to listen on if the server isn't running yet (default: 3456)"),
+    hosts: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Hostnames (e.g. 'www.mysite.com') whose Origin or Host header routes plain POST /chat to this domain. Saved with the domain.",
+      ),
   },
-  async ({ domain, port }) => {
+  async ({ domain, port, hosts }) => {
     try {
       const config = loadDomainConfig(domain);
       if (!config) {
@@ -244,13 +329,16 @@ server.tool(
         };
       }
 
+      if (hosts) saveDomainConfig(domain, { ...config, hosts });
+
       const result = await startChatServer(domain, port || 3456);
+      const live = listServedDomains().map((d) => d.domain);
 
       return {
         content: [
           {
             type: "text" as const,
-            text: `Chat server running for "${domain}" at ${result.url}\n\nEndpoints:\n- GET  /      — health check\n- POST /chat  — send messages\n\nThe server will keep running until the MCP session ends.\nUse ragchat_widget to get the embed code.`,
+            text: `Chat server running for "${domain}" at ${result.url}\n\nEndpoints:\n- GET  ${result.url}       — health check\n- POST ${result.url}/chat  — send messages\n- GET  ${chatServerUrl()}/widget.js — the embeddable widget\n\nServing ${live.length} domain(s): ${live.join(", ")}\nThe server will keep running until the MCP session ends.\nUse ragchat_widget to get the embed code.`,
           },
         ],
       };
@@ -267,39 +355,105 @@ server.tool(
 
 server.tool(
   "ragchat_widget",
-  "Generate an embeddable chat widget. Returns a <script> tag that creates a floating chat bubble on any webpage. Connects to the chat server started with ragchat_serve.",
+  "Get the embed code for a domain's chat widget: one <script> tag loading /widget.js from the chat server, plus a <ragchat-widget> element. Settings passed here (title, color, theme, greeting, starter questions, UI text, CSS variables) are saved to the domain config and served to the widget, so later changes need no re-paste. Markdown replies, light/dark/auto themes, keyboard and screen-reader support are built in.",
   {
-    domain: z.string().describe("Domain name (used in widget title)"),
-    chatUrl: z
+    domain: z.string().describe("Domain name"),
+    serverUrl: z
       .string()
       .optional()
       .describe(
-        "Chat server URL (default: http://localhost:3456). Change this when deploying to production.",
+        "Base URL of the chat server (default: the running server's URL, or http://localhost:3456). Change this when deploying to production.",
       ),
-    title: z
+    title: z.string().min(1).max(100).optional().describe("Widget header title (default: 'Chat with us')"),
+    color: z.string().optional().describe("Accent color (default: '#22c55e')"),
+    position: z
+      .enum(["right", "left"])
+      .optional()
+      .describe("Corner of the page for the chat bubble (default: right)"),
+    theme: z
+      .enum(["light", "dark", "auto"])
+      .optional()
+      .describe("Color theme; auto follows the visitor's OS setting (default: dark)"),
+    greeting: z
       .string()
+      .max(2000)
+      .optional()
+      .describe("Message shown when a conversation starts (markdown allowed). Empty string removes it"),
+    starters: z
+      .array(z.string().min(1).max(200))
+      .max(6)
       .optional()
-      .describe("Widget header title (default: 'Chat with us')"),
-    color: z
+      .describe("Suggested starter questions, shown as buttons until the visitor sends a message; [] removes them"),
+    strings: z
+      .record(z.string())
+      .optional()
+      .describe(
+        `UI text overrides for localization, merged into the saved ones; an empty value restores the default. Keys: ${Object.keys(DEFAULT_WIDGET_STRINGS).join(", ")}`,
+      ),
+    cssVars: z
+      .record(z.string())
+      .optional()
+      .describe(
+        'CSS variable overrides, merged into the saved ones; an empty value removes one. e.g. {"bg": "#fff", "font": "Inter, sans-serif"}. Names: accent, accent-text, link, bg, surface, border, text, muted, input-bg, code-bg, shadow, font',
+      ),
+    publishableKey: z
       .string()
       .optional()
-      .describe("Accent color hex (default: '#22c55e')"),
+      .describe("Publishable key (pk_...) for the key attribute (default: the domain's first publishable key, if any)"),
   },
-  async ({ domain, chatUrl, title, color }) => {
-    const widget = generateWidget(chatUrl || "http://localhost:3456", {
-      domain,
-      title,
-      accentColor: color,
-    });
+  async ({ domain, serverUrl, greeting, strings, cssVars, publishableKey, ...settings }) => {
+    try {
+      const config = loadDomainConfig(domain);
+      if (!config) {
+        return {
+          content: [
+            { type: "text" as const, text: `Domain "${domain}" not found. Run ragchat_setup first.` },
+          ],
+        };
+      }
 
-    return {
-      content: [
-        {
-          type: "text" as const,
-          text: `**Chat Widget for ${domain}**\n\nPaste this into any HTML page:\n\n\`\`\`html\n${widget}\n\`\`\`\n\nMake sure the chat server is running (ragchat_serve) before testing.\nFor production, change the chatUrl to your deployed server address.`,
-        },
-      ],
-    };
+      const given = Object.fromEntries(Object.entries(settings).filter(([, v]) => v !== undefined));
+      const changed = Object.keys(given).length > 0 || greeting !== undefined || strings || cssVars;
+      if (changed) {
+        const merge = (current: Record<string, string>, patch: Record<string, string>) =>
+          Object.fromEntries(Object.entries({ ...current, ...patch }).filter(([, v]) => v !== ""));
+        const widget = {
+          ...config.widget,
+          ...given,
+          ...(greeting !== undefined ? { greeting: greeting || null } : {}),
+          ...(strings ? { strings: merge(config.widget.strings, strings) } : {}),
+          ...(cssVars ? { cssVars: merge(config.widget.cssVars, cssVars) } : {}),
+        };
+        saveDomainConfig(domain, parseDomainConfig({ ...config, widget }, domain));
+      }
+
+      const base = serverUrl || chatServerUrl() || "http://localhost:3456";
+      const embed = widgetEmbed(base, domain, {
+        publishableKey: publishableKey || config.publishableKeys?.[0],
+      });
+      const saved = loadDomainConfig(domain)!.widget;
+      const summary = [
+        `Title: ${saved.title} · Color: ${saved.color} · Position: ${saved.position} · Theme: ${saved.theme}`,
+        saved.greeting ? `Greeting: ${saved.greeting.slice(0, 80)}` : null,
+        saved.starters.length ? `Starters: ${saved.starters.join(" | ")}` : null,
+        Object.keys(saved.strings).length ? `Custom text: ${Object.keys(saved.strings).join(", ")}` : null,
+        Object.keys(saved.cssVars).length ? `CSS variables: ${Object.keys(saved.cssVars).join(", ")}` : null,
+      ].filter(Boolean);
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `**Chat Widget for ${domain}**${changed ? " (settings saved)" : ""}\n\nPaste this into any HTML page:\n\n\`\`\`html\n${embed}\n\`\`\`\n\n${summary.join("\n")}\n\nThe widget loads these settings from the chat server, so changing them here or with ragchat_config needs no re-paste.\nMake sure the chat server is running (ragchat_serve) before testing.\nFor production, pass serverUrl with your deployed server address.`,
+          },
+        ],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: "text" as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
   },
 );
 
@@ -323,9 +477,12 @@ server.tool(
         };
       }
 
+      const live = new Map(listServedDomains().map((d) => [d.domain, d.url]));
       const lines = domains.map((d) => {
+        if (d.error) return `- **${d.domain}**\n  Invalid: ${d.error}`;
         const config = loadDomainConfig(d.domain);
-        return `- **${d.domain}**\n  Documents: ${d.documentCount}\n  Created: ${d.createdAt || "unknown"}\n  Prompt: ${(config?.systemPrompt || "").slice(0, 60)}...`;
+        const serving = live.has(d.domain) ? `live at ${live.get(d.domain)}` : "not served";
+        return `- **${d.domain}**\n  Documents: ${d.documentCount}\n  Created: ${d.createdAt || "unknown"}\n  Chat: ${serving}${config?.hosts?.length ? ` (hosts: ${config.hosts.join(", ")})` : ""}\n  Prompt: ${(config?.systemPrompt || "").slice(0, 60)}...`;
       });
 
       return {
@@ -345,9 +502,937 @@ server.tool(
   },
 );
 
-// ============ MAIN ============
+// ---------- Tool 6: Ingest ----------
+
+server.tool(
+  "ragchat_ingest",
+  "Ingest a local file or directory into a domain's knowledge base. Parses .md, .mdx, .html (tags and navigation stripped), .txt, and JSON/CSV FAQ files (question + answer). Each document records its source path. Re-running syncs: only changed files are re-embedded and documents from deleted files are removed; files that fail to parse keep their previous documents.",
+  {
+    domain: z.string().describe("Domain to ingest into"),
+    path: z.string().describe("File or directory path"),
+    include: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Glob patterns relative to the directory (default: **/*.md, **/*.mdx, **/*.html, **/*.htm, **/*.txt, **/*.csv; JSON FAQs only when included, e.g. **/faq.json)",
+      ),
+    exclude: z
+      .array(z.string())
+      .optional()
+      .describe("Glob patterns to skip (default: **/node_modules/**, **/.git/**)"),
+    systemPrompt: z
+      .string()
+      .optional()
+      .describe("System prompt, required if the domain hasn't been set up yet"),
+    mode: z
+      .enum(["sync", "reset"])
+      .optional()
+      .describe(
+        "'sync' (default): only embed new or changed sections. 'reset': re-embed everything under this path.",
+      ),
+    baseUrl: z
+      .string()
+      .url()
+      .optional()
+      .describe(
+        "Public URL the files are published under (e.g. https://mysite.com/docs). Citations link docs/pricing.md to {baseUrl}/pricing.",
+      ),
+  },
+  async ({ domain, path: target, include, exclude, systemPrompt, mode, baseUrl }, extra) => {
+    try {
+      let config = loadDomainConfig(domain);
+      if (!config) {
+        if (!systemPrompt) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Domain "${domain}" not found. Pass systemPrompt to create it, or run ragchat_setup first.`,
+              },
+            ],
+          };
+        }
+        config = saveDomainConfig(domain, {
+          domain,
+          systemPrompt,
+          searchMode: NEW_DOMAIN_SEARCH_MODE,
+          createdAt: new Date().toISOString(),
+        });
+      } else if (systemPrompt) {
+        config = saveDomainConfig(domain, { ...config, systemPrompt });
+      }
+
+      const ingest = ingestPath(target, { include, exclude, chunking: config.chunking, baseUrl });
+      if (ingest.files.length === 0) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `No matching files under ${ingest.root}.`,
+            },
+          ],
+        };
+      }
+
+      const root = ingest.root;
+      const sync = await syncDocuments(domain, ingest.chunks, {
+        reset: mode === "reset",
+        scope: (doc) => !!doc.source && coversFile(ingest, doc.source),
+        onProgress: progressReporter(extra, "Embedding sections"),
+      });
+
+      let result = `Ingested ${ingest.files.length} file(s) from ${root} into "${domain}" (${ingest.chunks.length} documents).`;
+      result += `\n\nSync (${mode || "sync"}):\n${formatSyncReport(sync)}`;
+      if (ingest.dropped.length > 0) {
+        result += `\n\nDropped:\n${ingest.dropped.map((d) => `- ${d.title}: ${d.reason}`).join("\n")}`;
+      }
+      if (ingest.errors.length > 0) {
+        result += `\n\nUnreadable files:\n${ingest.errors.map((e) => `- ${e.file}: ${e.error}`).join("\n")}`;
+      }
+
+      return { content: [{ type: "text" as const, text: result }] };
+    } catch (err: any) {
+      return {
+        content: [{ type: "text" as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
+// ---------- Tool 7: List documents ----------
+
+server.tool(
+  "ragchat_documents",
+  "List a domain's documents with id, title, size and creation date.",
+  {
+    domain: z.string().describe("Domain to list"),
+  },
+  async ({ domain }) => {
+    try {
+      if (!loadDomainConfig(domain)) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Domain "${domain}" not found. Run ragchat_setup first.`,
+            },
+          ],
+        };
+      }
+
+      const docs = loadVectors(domain);
+      if (docs.length === 0) {
+        return {
+          content: [{ type: "text" as const, text: `Domain "${domain}" has no documents.` }],
+        };
+      }
+
+      const lines = docs.map(
+        (d) =>
+          `- **${d.id}** — ${d.title}\n  ${d.content.length} chars, created ${d.createdAt}${d.updatedAt ? `, updated ${d.updatedAt}` : ""}${d.source ? `\n  Source: ${d.source}` : ""}${d.url ? `\n  URL: ${d.url}` : ""}`,
+      );
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Documents in "${domain}" (${docs.length}):\n\n${lines.join("\n")}`,
+          },
+        ],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: "text" as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
+// ---------- Tool 8: Show document ----------
+
+server.tool(
+  "ragchat_document",
+  "Show one document's full content and metadata.",
+  {
+    domain: z.string().describe("Domain the document belongs to"),
+    id: z.string().describe("Document id (see ragchat_documents)"),
+  },
+  async ({ domain, id }) => {
+    try {
+      const doc = getDocument(domain, id);
+      if (!doc) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Document "${id}" not found in "${domain}". Use ragchat_documents to list ids.`,
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `**${doc.title}** (${doc.id})\nCreated: ${doc.createdAt}${doc.updatedAt ? `\nUpdated: ${doc.updatedAt}` : ""}${doc.source ? `\nSource: ${doc.source}` : ""}${doc.url ? `\nURL: ${doc.url}` : ""}\nSize: ${doc.content.length} chars\n\n${doc.content}`,
+          },
+        ],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: "text" as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
+// ---------- Tool 9: Upsert document ----------
+
+server.tool(
+  "ragchat_upsert",
+  "Add a single document to a domain, or replace an existing one by id. Only this document is embedded — use it to fix one answer without re-running setup.",
+  {
+    domain: z.string().describe("Domain to add the document to"),
+    title: z.string().describe("Document title"),
+    content: z.string().describe("Document content"),
+    id: z
+      .string()
+      .optional()
+      .describe("Id of the document to replace. Omit to derive a stable id from the title."),
+    url: z
+      .string()
+      .url()
+      .optional()
+      .describe("Public page for this document, linked from citations (kept from the replaced document if omitted)"),
+  },
+  async ({ domain, title, content, id, url }) => {
+    try {
+      const config = loadDomainConfig(domain);
+      if (!config) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Domain "${domain}" not found. Run ragchat_setup first.`,
+            },
+          ],
+        };
+      }
+
+      const model = resolveEmbeddingModel(config.embedding ?? {});
+      assertEmbeddingModel(domain, model);
+      const docId = id || stableId(domain, title);
+      const prev = getDocument(domain, docId);
+      const now = new Date().toISOString();
+
+      addDocument(
+        domain,
+        {
+          id: docId,
+          title,
+          content,
+          contentHash: hashText(content),
+          ...(prev?.source ? { source: prev.source } : {}),
+          ...(url || prev?.url ? { url: url || prev?.url } : {}),
+          embedding: await generateEmbedding(content, model),
+          createdAt: prev?.createdAt || now,
+          ...(prev ? { updatedAt: now } : {}),
+        },
+        model,
+      );
+      const suspicious = detectInjection(content);
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `${prev ? "Replaced" : "Added"} document "${docId}" in "${domain}".${suspicious.length > 0 ? `\nWarning: the content looks like prompt injection (${suspicious.join(", ")}). Review it; guardrails.documents "drop" keeps such documents out of answers.` : ""}`,
+          },
+        ],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: "text" as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
+// ---------- Tool 10: Delete ----------
+
+server.tool(
+  "ragchat_delete",
+  "Delete documents from a domain by id, or delete a whole domain with all its data. Deleting a domain cannot be undone.",
+  {
+    domain: z.string().describe("Domain to delete from"),
+    ids: z
+      .array(z.string())
+      .optional()
+      .describe("Document ids to delete"),
+    deleteDomain: z
+      .boolean()
+      .optional()
+      .describe("Delete the whole domain (config and all documents) instead of individual ids"),
+  },
+  async ({ domain, ids, deleteDomain: wholeDomain }) => {
+    try {
+      if (!loadDomainConfig(domain)) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Domain "${domain}" not found.`,
+            },
+          ],
+        };
+      }
+
+      if (wholeDomain) {
+        const count = loadVectors(domain).length;
+        deleteDomain(domain);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Deleted domain "${domain}" and its ${count} documents.`,
+            },
+          ],
+        };
+      }
+
+      if (!ids || ids.length === 0) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "Pass document ids to delete, or deleteDomain: true to delete the domain.",
+            },
+          ],
+        };
+      }
+
+      const removed = deleteDocuments(domain, ids);
+      const missing = ids.filter((id) => !removed.includes(id));
+      let result = `Deleted ${removed.length} document(s) from "${domain}".`;
+      if (missing.length > 0) result += `\nNot found: ${missing.join(", ")}`;
+
+      return { content: [{ type: "text" as const, text: result }] };
+    } catch (err: any) {
+      return {
+        content: [{ type: "text" as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
+// ---------- Tool 11: Stop serving ----------
+
+server.tool(
+  "ragchat_stop",
+  "Stop serving a domain from the chat server. Other domains keep running; the server shuts down when no domains are left.",
+  {
+    domain: z
+      .string()
+      .optional()
+      .describe("Domain to stop serving. Omit to stop every domain and the server."),
+  },
+  async ({ domain }) => {
+    const live = listServedDomains().map((d) => d.domain);
+    if (domain && !live.includes(domain)) {
+      return {
+        content: [{ type: "text" as const, text: `Domain "${domain}" is not being served.` }],
+      };
+    }
+
+    stopChatServer(domain);
+    const remaining = listServedDomains().map((d) => d.domain);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `${domain ? `Stopped serving "${domain}".` : "Stopped the chat server."}${remaining.length > 0 ? `\nStill serving: ${remaining.join(", ")}` : "\nChat server is stopped."}`,
+        },
+      ],
+    };
+  },
+);
+
+// ---------- Tool 12: Config ----------
+
+server.tool(
+  "ragchat_config",
+  "View or update a domain's settings: system prompt, LLM provider/model, temperature, max tokens, retrieval mode, topK, minScore, context budget, embedding model, vector storage and ANN index, query rewriting, session TTL, analytics retention, allowed origins, rate limits, guardrails (prompt injection, topic scope, canned replies), the low-confidence fallback answer and human handoff webhook, and the widget's look and text. Call with only the domain to view. ragchat_test and the chat server use these immediately.",
+  {
+    domain: z.string().describe("Domain to view or update"),
+    ...domainSettingsSchema.shape,
+  },
+  async ({ domain, ...updates }) => {
+    try {
+      const config = loadDomainConfig(domain);
+      if (!config) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Domain "${domain}" not found. Run ragchat_setup first.`,
+            },
+          ],
+        };
+      }
+
+      const patch = Object.fromEntries(
+        Object.entries(updates).filter(([, v]) => v !== undefined),
+      );
+      const changed = Object.keys(patch);
+      const next = changed.length > 0 ? saveDomainConfig(domain, mergeSettings(config, patch)) : config;
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `${changed.length > 0 ? `Updated ${changed.join(", ")} for` : "Config for"} "${domain}":\n\n\`\`\`json\n${JSON.stringify(maskedConfig(next), null, 2)}\n\`\`\``,
+          },
+        ],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: "text" as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
+// ---------- Tool 13: Analytics ----------
+
+server.tool(
+  "ragchat_analytics",
+  "Summarize a domain's chat traffic over a time range: top questions, retrieval misses (no document above minScore — likely gaps in the knowledge base), fallback answers and handoff deliveries, error rate and latency percentiles.",
+  {
+    domain: z.string().describe("Domain to analyze"),
+    since: z
+      .string()
+      .optional()
+      .describe("Start of the range: ISO date/time, or a duration before now like '24h' or '7d' (default: 7d)"),
+    until: z
+      .string()
+      .optional()
+      .describe("End of the range: ISO date/time, or a duration before now (default: now)"),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .optional()
+      .describe("Entries per top list (default: 10)"),
+  },
+  async ({ domain, since, until, limit }) => {
+    try {
+      if (!loadDomainConfig(domain)) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Domain "${domain}" not found. Run ragchat_setup first.`,
+            },
+          ],
+        };
+      }
+
+      const range = {
+        since: parseTimeBound(since || "7d"),
+        until: until ? parseTimeBound(until) : new Date(),
+      };
+      if (range.since > range.until) throw new Error("since must be before until");
+
+      const summary = summarizeExchanges(readExchanges(domain, range), range, limit);
+      const handoffs = loadHandoffs(domain, range);
+      let text = formatAnalytics(domain, summary);
+      if (handoffs.length > 0) text += `\n\n${formatHandoffs(handoffs, limit)}`;
+      return {
+        content: [{ type: "text" as const, text }],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: "text" as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
+// ---------- Tool 14: Feedback ----------
+
+server.tool(
+  "ragchat_feedback",
+  "List a domain's worst-rated answers from visitor thumbs up/down feedback, with their questions, comments and the documents they were based on — so you know which knowledge-base sections to fix.",
+  {
+    domain: z.string().describe("Domain to review"),
+    since: z
+      .string()
+      .optional()
+      .describe("Only feedback after this: ISO date/time, or a duration before now like '7d' (default: all)"),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .optional()
+      .describe("Maximum answers and documents listed (default: 10)"),
+  },
+  async ({ domain, since, limit }) => {
+    try {
+      if (!loadDomainConfig(domain)) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Domain "${domain}" not found. Run ragchat_setup first.`,
+            },
+          ],
+        };
+      }
+
+      const range = since ? { since: parseTimeBound(since), until: new Date() } : undefined;
+      const summary = summarizeFeedback(loadFeedback(domain, range), limit);
+      return {
+        content: [{ type: "text" as const, text: formatFeedback(domain, summary) }],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: "text" as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
+// ---------- Tool 15: API keys ----------
+
+server.tool(
+  "ragchat_keys",
+  "Create, list or revoke a domain's API keys. Publishable keys (pk_...) go in the widget and are checked together with allowed origins. Secret keys (sk_...) are for server-to-server calls ('Authorization: Bearer sk_...') and bypass origin checks and per-client rate limits — never put them in a web page.",
+  {
+    domain: z.string().describe("Domain whose keys to manage"),
+    action: z.enum(["list", "create", "revoke"]).describe("What to do"),
+    kind: z
+      .enum(["publishable", "secret"])
+      .optional()
+      .describe("Key type to create (default: publishable)"),
+    key: z.string().optional().describe("Key to revoke"),
+  },
+  async ({ domain, action, kind = "publishable", key }) => {
+    try {
+      const config = loadDomainConfig(domain);
+      if (!config) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Domain "${domain}" not found. Run ragchat_setup first.`,
+            },
+          ],
+        };
+      }
+
+      const publishable = config.publishableKeys || [];
+      const secret = config.secretKeys || [];
+      let message: string;
+
+      if (action === "create") {
+        const created = generateKey(kind);
+        if (kind === "publishable") {
+          saveDomainConfig(domain, { ...config, publishableKeys: [...publishable, created] });
+          message = `Created publishable key:\n${created}\n\nThe chat now requires a publishable key from browsers. Put it in the widget's key attribute (ragchat_widget shows the embed code).`;
+        } else {
+          saveDomainConfig(domain, { ...config, secretKeys: [...secret, created] });
+          message = `Created secret key (shown once — store it safely):\n${created}\n\nSend it as 'Authorization: Bearer ${created.slice(0, 6)}...' from your server.`;
+        }
+      } else if (action === "revoke") {
+        if (!key) throw new Error("key is required to revoke");
+        if (!publishable.includes(key) && !secret.includes(key)) {
+          throw new Error(`No such key for "${domain}"`);
+        }
+        const nextPublishable = publishable.filter((k) => k !== key);
+        const nextSecret = secret.filter((k) => k !== key);
+        saveDomainConfig(domain, {
+          ...config,
+          publishableKeys: nextPublishable.length > 0 ? nextPublishable : undefined,
+          secretKeys: nextSecret.length > 0 ? nextSecret : undefined,
+        });
+        message = `Revoked ${key.slice(0, 6)}...${
+          publishable.includes(key) && nextPublishable.length === 0
+            ? "\nNo publishable keys left: browsers no longer need a key."
+            : ""
+        }`;
+      } else {
+        message = [
+          `Publishable: ${publishable.length > 0 ? publishable.join(", ") : "none (not required)"}`,
+          `Secret: ${secret.length > 0 ? secret.map(maskKey).join(", ") : "none"}`,
+          `Allowed origins: ${config.allowedOrigins?.length ? config.allowedOrigins.join(", ") : "any"}`,
+        ].join("\n");
+      }
+
+      return {
+        content: [{ type: "text" as const, text: `**API keys: ${domain}**\n\n${message}` }],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: "text" as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
+// ---------- Tool 16: Evaluate ----------
+
+server.tool(
+  "ragchat_eval",
+  "Evaluate a domain against a golden set of questions with expected document ids and/or expected answer facts. Reports retrieval recall@k and MRR, and with judge=true generates answers and has an LLM grade correctness and groundedness. Each run is saved with its settings; pass `settings` to try a configuration without changing the live one, then compare runs with ragchat_eval_compare.",
+  {
+    domain: z.string().describe("Domain to evaluate"),
+    cases: z
+      .array(evalCaseSchema)
+      .optional()
+      .describe("Golden set: [{ question, expectedIds?, expectedFacts? }]"),
+    file: z
+      .string()
+      .optional()
+      .describe("Golden set file instead of `cases`: a JSON array or JSON Lines of the same objects"),
+    k: z
+      .number()
+      .int()
+      .min(1)
+      .max(50)
+      .optional()
+      .describe("Documents retrieved per question for recall@k and MRR (default: the domain's topK)"),
+    judge: z
+      .boolean()
+      .optional()
+      .describe("Generate answers and grade them with an LLM (default: false; costs one answer and one judge call per question)"),
+    judgeProvider: z
+      .enum(["openai", "anthropic", "gemini", "openai-compatible"])
+      .optional()
+      .describe("LLM provider for the judge (default: the domain's)"),
+    judgeModel: z.string().optional().describe("LLM model for the judge (default: the domain's)"),
+    label: z.string().optional().describe("Name for this run, e.g. 'hybrid-top5'"),
+    settings: domainSettingsSchema
+      .optional()
+      .describe("Settings to evaluate instead of the saved ones (not saved to the domain)"),
+  },
+  async ({ domain, cases, file, k, judge, judgeProvider, judgeModel, label, settings }, extra) => {
+    try {
+      const saved = loadDomainConfig(domain);
+      if (!saved) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Domain "${domain}" not found. Run ragchat_setup first.`,
+            },
+          ],
+        };
+      }
+      if (!cases && !file) throw new Error("Pass `cases` or `file`");
+
+      const golden = file ? loadEvalCases(file) : parseEvalCases(cases);
+      const config = settings ? parseDomainConfig(mergeSettings(saved, settings), domain) : saved;
+      const previous = listEvalRuns(domain).pop();
+
+      const run = await runEvaluation(domain, config, golden, {
+        k,
+        judge,
+        judgeOptions:
+          judgeProvider || judgeModel
+            ? { provider: judgeProvider || config.provider, model: judgeModel || null }
+            : undefined,
+        label,
+        onProgress: progressReporter(extra, "Evaluating"),
+      });
+      saveEvalRun(domain, run);
+
+      let text = formatEvalRun(run);
+      if (previous) text += `\n\n${formatEvalComparison(previous, run)}`;
+      return { content: [{ type: "text" as const, text }] };
+    } catch (err: any) {
+      return {
+        content: [{ type: "text" as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
+// ---------- Tool 17: Compare evaluations ----------
+
+server.tool(
+  "ragchat_eval_compare",
+  "Compare two saved ragchat_eval runs side by side: settings that differ, recall@k, MRR, correctness and groundedness, and questions whose retrieval got better or worse. With no run ids, compares the two most recent runs.",
+  {
+    domain: z.string().describe("Domain whose runs to compare"),
+    baseline: z.string().optional().describe("Run id to compare against (default: second most recent)"),
+    candidate: z.string().optional().describe("Run id to compare (default: most recent)"),
+  },
+  async ({ domain, baseline, candidate }) => {
+    try {
+      const runs = listEvalRuns(domain);
+      if (!baseline && !candidate && runs.length < 2) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Need two evaluation runs to compare; "${domain}" has ${runs.length}. Run ragchat_eval first.`,
+            },
+          ],
+        };
+      }
+
+      const b = candidate ? loadEvalRun(domain, candidate) : runs[runs.length - 1];
+      const a = baseline
+        ? loadEvalRun(domain, baseline)
+        : runs.filter((r) => r.id !== b.id).pop();
+      if (!a) throw new Error("No baseline run to compare against");
+
+      const list = runs.map((r) => `- ${r.id}${r.label ? ` (${r.label})` : ""}`).join("\n");
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `${formatEvalComparison(a, b)}\n\n**Saved runs:**\n${list}`,
+          },
+        ],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: "text" as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
+// ---------- Tool 18: Vector index ----------
+
+server.tool(
+  "ragchat_index",
+  "Show how a domain's vectors are stored and searched (float32 or int8, exact or HNSW), rebuild them after changing vectorIndex settings with ragchat_config, and measure the ANN index's recall against exact search.",
+  {
+    domain: z.string().describe("Domain to inspect"),
+    rebuild: z
+      .boolean()
+      .optional()
+      .describe("Rewrite the vectors in the configured format and rebuild the ANN index"),
+    verify: z
+      .boolean()
+      .optional()
+      .describe("Measure ANN recall@k against exact search, using stored documents as queries"),
+    samples: z.number().int().min(1).max(1000).optional().describe("Queries to verify with (default: 50)"),
+    k: z.number().int().min(1).max(100).optional().describe("Results compared per query (default: 10)"),
+  },
+  async ({ domain, rebuild, verify, samples, k }) => {
+    try {
+      const config = loadDomainConfig(domain);
+      if (!config) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Domain "${domain}" not found. Run ragchat_setup first.`,
+            },
+          ],
+        };
+      }
+
+      const lines: string[] = [];
+      if (rebuild) {
+        const startMs = Date.now();
+        rebuildVectorIndex(domain);
+        lines.push(`Rebuilt in ${Date.now() - startMs}ms.`, "");
+      }
+
+      const info = vectorIndexInfo(domain);
+      const { annMinDocs, efSearch } = config.vectorIndex;
+      const kb = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB`;
+      lines.unshift(`**Vector index: ${domain}**`, "");
+      lines.push(
+        `Documents: ${info.documents} × ${info.dim} dimensions`,
+        `Embedding model: ${info.embedding ? `${info.embedding.provider} / ${info.embedding.model}` : "not recorded"}`,
+        `Storage: ${info.format}, ${kb(info.vectorBytes)}`,
+        info.search === "hnsw"
+          ? `Search: HNSW (efSearch ${efSearch}), index ${kb(info.annBytes)}`
+          : `Search: exact${config.vectorIndex.ann ? ` (HNSW from ${annMinDocs} documents)` : " (ANN disabled)"}`,
+      );
+      if (info.format !== config.vectorIndex.quantization) {
+        lines.push(`Configured format is ${config.vectorIndex.quantization}; run with rebuild to convert.`);
+      }
+
+      if (verify) {
+        const r = measureAnnRecall(domain, samples, k);
+        lines.push(
+          "",
+          `**ANN recall@${r.k}:** ${(r.recall * 100).toFixed(1)}% over ${r.samples} queries`,
+          `Per query: HNSW ${r.annMs.toFixed(2)}ms, exact ${r.exactMs.toFixed(2)}ms`,
+        );
+      }
+
+      return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+    } catch (err: any) {
+      return {
+        content: [{ type: "text" as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
+// ---------- Tool 19: Re-embed ----------
+
+server.tool(
+  "ragchat_reembed",
+  "Re-embed every document of a domain with a different embedding model, e.g. after switching providers or changing EMBEDDING_MODEL. The current vectors keep serving until the new ones are all ready, then the domain switches in one write. With provider/model given, the domain is pinned to them; otherwise it follows EMBEDDING_PROVIDER / EMBEDDING_MODEL.",
+  {
+    domain: z.string().describe("Domain to re-embed"),
+    provider: z
+      .enum(["openai", "gemini", "bedrock", "openai-compatible"])
+      .optional()
+      .describe("Embedding provider to switch to (default: from the environment)"),
+    model: z
+      .string()
+      .optional()
+      .describe("Embedding model to switch to (default: EMBEDDING_MODEL or the provider's default)"),
+  },
+  async ({ domain, provider, model }, extra) => {
+    try {
+      const config = loadDomainConfig(domain);
+      if (!config) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Domain "${domain}" not found. Run ragchat_setup first.`,
+            },
+          ],
+        };
+      }
+
+      const pinned = provider || model ? { provider, model } : null;
+      const target = resolveEmbeddingModel(pinned ?? {});
+      const report = await reembedDocuments(domain, target, {
+        onProgress: progressReporter(extra, "Re-embedding"),
+      });
+      saveDomainConfig(domain, {
+        ...config,
+        embedding: pinned ? { provider: target.provider, model: target.model } : null,
+      });
+
+      const describe = (m: { provider: string; model: string; dim: number }) =>
+        `${m.provider} / ${m.model} (${m.dim} dimensions)`;
+      let text = `Re-embedded ${report.documents} documents in "${domain}":\n${report.from ? describe(report.from) : "unrecorded model"} → ${describe(report.to)}`;
+      if (report.caughtUp > 0) {
+        text += `\n\n${report.caughtUp} documents added or changed during the migration were included.`;
+      }
+      text += pinned
+        ? `\n\nThe domain is pinned to ${target.provider} / ${target.model}.`
+        : `\n\nThe domain follows EMBEDDING_PROVIDER / EMBEDDING_MODEL; keep them set to ${target.provider} / ${target.model}.`;
+
+      return { content: [{ type: "text" as const, text }] };
+    } catch (err: any) {
+      return {
+        content: [{ type: "text" as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
+// ---------- Tool 20: Export ----------
+
+server.tool(
+  "ragchat_export",
+  "Export a domain as a single bundle file: config, documents, embeddings and the embedding model they came from. Import it with ragchat_import (or `mcp-ragchat import`) on another machine. Sessions, analytics, feedback and eval runs are not included.",
+  {
+    domain: z.string().describe("Domain to export"),
+    path: z.string().describe("File to write, e.g. './mysite.ragchat'"),
+    includeKeys: z
+      .boolean()
+      .optional()
+      .describe("Include the domain's publishable and secret API keys and its handoff webhook (default: false)"),
+  },
+  async ({ domain, path: file, includeKeys }) => {
+    try {
+      const config = loadDomainConfig(domain);
+      if (!config) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Domain "${domain}" not found. Run ragchat_setup first.`,
+            },
+          ],
+        };
+      }
+
+      const target = path.resolve(file);
+      const bundle = exportBundle(domain, { includeKeys });
+      fs.writeFileSync(target, bundle);
+
+      const hasKeys = !!(config.publishableKeys?.length || config.secretKeys?.length || config.fallback.handoff.webhookUrl);
+      let text = `Exported "${domain}" (${loadVectors(domain).length} documents) to ${target} (${(bundle.length / 1024).toFixed(1)} KB).`;
+      if (hasKeys && !includeKeys) text += "\nAPI keys and the handoff webhook were left out; pass includeKeys to keep them.";
+      return { content: [{ type: "text" as const, text }] };
+    } catch (err: any) {
+      return {
+        content: [{ type: "text" as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
+// ---------- Tool 21: Import ----------
+
+server.tool(
+  "ragchat_import",
+  "Import a bundle made by ragchat_export. The bundle is validated before anything is written. Import under another name with 'as'. An existing domain is only changed with a mode: 'merge' adds the bundle's documents (same ids are replaced) and keeps the domain's config; 'replace' overwrites its config and documents.",
+  {
+    path: z.string().describe("Bundle file to import"),
+    as: z.string().optional().describe("Domain name to import as (default: the bundle's domain)"),
+    mode: z
+      .enum(["merge", "replace"])
+      .optional()
+      .describe("What to do if the domain already exists (default: refuse)"),
+  },
+  async ({ path: file, as, mode }) => {
+    try {
+      const bundle = readBundle(fs.readFileSync(path.resolve(file)));
+      const report = importBundle(bundle, { as, mode });
+      return { content: [{ type: "text" as const, text: formatImportReport(bundle, report) }] };
+    } catch (err: any) {
+      return {
+        content: [{ type: "text" as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
+// ============ MAIN ============
+
+async function main() {
+  const command = process.argv[2];
+  if (command && (CLI_COMMANDS.includes(command) || command === "--help" || command === "-h")) {
+    process.exitCode = await runCli(process.argv.slice(2));
+    return;
+  }
 
-async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
 }
@@ -0,0 +1,87 @@
+/**
+ * History-aware query rewriting.
+ *
+ * Follow-ups like "how much does it cost?" say nothing about what "it" is,
+ * so embedding the message alone retrieves the wrong documents. When a
+ * domain enables `queryRewrite`, one LLM call condenses the conversation
+ * and the new message into a standalone search query, and optionally adds
+ * paraphrased variants that are retrieved and merged. Any failure falls
+ * back to searching the message as-is.
+ */
+
+import { callLLM, type ChatMessage, type LLMOptions } from "./llm";
+import type { QueryRewrite } from "./config";
+
+export interface QueryPlan {
+  /** What retrieval searches for */
+  query: string;
+  /** Additional phrasings, retrieved alongside `query` */
+  variants: string[];
+  /** Whether `query` differs from the visitor's message */
+  rewritten: boolean;
+  /** Why rewriting was skipped or failed, if it was */
+  note?: string;
+}
+
+/** Messages of history shown to the rewriter, and characters kept per message */
+const HISTORY_MESSAGES = 6;
+const HISTORY_CHARS = 500;
+
+function rewritePrompt(condense: boolean, variants: number): string {
+  const rules = [
+    condense
+      ? "- query: the latest message rewritten as a standalone search query. Resolve pronouns and references (\"it\", \"that plan\") from the conversation. If it is already standalone, return it unchanged."
+      : "- query: the latest message, unchanged.",
+    variants > 0
+      ? `- variants: ${variants} different phrasings of the query (synonyms, more specific or more general wording).`
+      : "- variants: an empty array.",
+  ];
+  return `You turn a website visitor's latest message into search queries for a knowledge base.
+Do not answer the message. Keep the visitor's language.
+Reply with a single JSON object and nothing else:
+{"query": string, "variants": string[]}
+${rules.join("\n")}`;
+}
+
+/** Plan the search queries for a message, per the domain's queryRewrite settings */
+export async function planQuery(
+  settings: QueryRewrite,
+  message: string,
+  history: ChatMessage[],
+  options: LLMOptions,
+): Promise<QueryPlan> {
+  const { condense, variants } = settings;
+  const plain: QueryPlan = { query: message, variants: [], rewritten: false };
+
+  // Nothing to condense against, and no variants wanted
+  if (variants === 0 && (!condense || history.length === 0)) return plain;
+
+  const conversation = (condense ? history.slice(-HISTORY_MESSAGES) : [])
+    .map((h) => `${h.role === "user" ? "Visitor" : "Assistant"}: ${h.text.slice(0, HISTORY_CHARS)}`)
+    .join("\n");
+  const input = `${conversation ? `CONVERSATION:\n${conversation}\n\n` : ""}LATEST MESSAGE:\n${message}`;
+
+  try {
+    const reply = await callLLM(rewritePrompt(condense, variants), [], input, {
+      ...options,
+      temperature: 0,
+      maxTokens: 300,
+    });
+    const json = reply.match(/\{[\s\S]*\}/);
+    if (!json) throw new Error("no JSON in reply");
+    const parsed = JSON.parse(json[0]);
+
+    const query =
+      condense && typeof parsed.query === "string" && parsed.query.trim() ? parsed.query.trim() : message;
+    const extra: string[] = Array.isArray(parsed.variants)
+      ? parsed.variants.filter((v: unknown): v is string => typeof v === "string" && !!v.trim())
+      : [];
+    const unique = [...new Set(extra.map((v) => v.trim()))]
+      .filter((v) => v.toLowerCase() !== query.toLowerCase())
+      .slice(0, variants);
+
+    return { query, variants: unique, rewritten: query !== message };
+  } catch (err: any) {
+    return { ...plain, note: `rewrite failed: ${err.message}` };
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Context retrieval shared by ragchat_test and the chat server.
+ *
+ * Picks vector, keyword or hybrid search per the domain's search mode.
+ * Several queries (a rewritten query and its variants) can be retrieved
+ * together and merged.
+ */
+
+import {
+  assertEmbeddingModel,
+  EmbeddingMismatchError,
+  searchByEmbedding,
+  searchByKeyword,
+  searchHybrid,
+  type SearchMode,
+  type SearchResult,
+} from "./vector-store";
+import { generateEmbedding, resolveEmbeddingModel, type EmbeddingModel } from "./embeddings";
+
+export interface RetrieveOptions {
+  mode?: SearchMode;
+  limit?: number;
+  minScore?: number;
+  /** The domain's pinned embedding provider/model, if any */
+  embedding?: Partial<EmbeddingModel> | null;
+}
+
+/** Retrieve the most relevant documents for a query */
+export async function retrieve(
+  domain: string,
+  query: string,
+  { mode = "vector", limit = 3, minScore = 0.3, embedding }: RetrieveOptions = {},
+): Promise<SearchResult[]> {
+  if (mode === "keyword") return searchByKeyword(domain, query, limit);
+
+  let queryEmbed: number[];
+  try {
+    const model = resolveEmbeddingModel(embedding ?? {});
+    // Another model's vectors live in a different space: fail loudly, not with noise
+    assertEmbeddingModel(domain, model);
+    queryEmbed = await generateEmbedding(query, model);
+  } catch (err) {
+    // Keyword results still beat no context when the embedder is down
+    if (mode === "hybrid" && !(err instanceof EmbeddingMismatchError)) {
+      return searchByKeyword(domain, query, limit);
+    }
+    throw err;
+  }
+
+  return mode === "vector"
+    ? searchByEmbedding(domain, queryEmbed, limit, minScore)
+    : searchHybrid(domain, query, queryEmbed, limit, minScore);
+}
+
+/**
+ * Retrieve for several queries and merge: each document keeps its best
+ * score and best similarity across queries.
+ */
+export async function retrieveMany(
+  domain: string,
+  queries: string[],
+  options: RetrieveOptions = {},
+): Promise<SearchResult[]> {
+  if (queries.length === 1) return retrieve(domain, queries[0], options);
+
+  const lists = await Promise.all(queries.map((q) => retrieve(domain, q, options)));
+  const best = new Map<string, SearchResult>();
+  for (const r of lists.flat()) {
+    const prev = best.get(r.id);
+    const top = !prev || r.score > prev.score ? r : prev;
+    const similarities = [prev?.similarity, r.similarity].filter((s): s is number => s !== undefined);
+    best.set(r.id, similarities.length > 0 ? { ...top, similarity: Math.max(...similarities) } : top);
+  }
+  return [...best.values()].sort((a, b) => b.score - a.score).slice(0, options.limit ?? 3);
+}
@@ -0,0 +1,138 @@
+/**
+ * Server-side chat sessions.
+ *
+ * The chat server issues a session id on the first message and keeps the
+ * conversation in sessions/{id}.json under the domain directory. History
+ * sent to the model is rebuilt from here, never taken from the client.
+ * Sessions expire after the domain's sessionTtlMinutes of inactivity.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { domainSubdir } from "./vector-store";
+import type { ChatMessage } from "./llm";
+import type { Citation } from "./rag";
+
+export interface SessionMessage {
+  role: "user" | "assistant";
+  text: string;
+  at: string;
+  /** Assistant replies only: id for feedback, the documents used and those cited */
+  id?: string;
+  sources?: string[];
+  citations?: Citation[];
+  /** Set on the domain's low-confidence fallback answer */
+  fallback?: boolean;
+}
+
+export interface ChatSession {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: SessionMessage[];
+  /** When the visitor asked for a human follow-up (see handoff.ts) */
+  handoffAt?: string;
+}
+
+/** Messages kept per session; older ones are dropped */
+const MAX_STORED_MESSAGES = 200;
+
+/** Messages replayed to the model as history */
+const HISTORY_MESSAGES = 10;
+
+const SESSION_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+function sessionPath(domain: string, id: string): string {
+  return path.join(domainSubdir(domain, "sessions"), `${id}.json`);
+}
+
+function isExpired(updatedAt: string | number | Date, ttlMinutes: number): boolean {
+  return Date.now() - new Date(updatedAt).getTime() > ttlMinutes * 60_000;
+}
+
+/** Start a new, empty session. It is written on the first saved exchange. */
+export function createSession(): ChatSession {
+  const now = new Date().toISOString();
+  return { id: randomUUID(), createdAt: now, updatedAt: now, messages: [] };
+}
+
+/** Load a live session, or null if the id is unknown, malformed or expired */
+export function loadSession(domain: string, id: string, ttlMinutes: number): ChatSession | null {
+  if (!SESSION_ID.test(id)) return null;
+  const file = sessionPath(domain, id);
+  if (!fs.existsSync(file)) return null;
+
+  let session: ChatSession;
+  try {
+    session = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch {
+    return null;
+  }
+  if (isExpired(session.updatedAt, ttlMinutes)) {
+    fs.rmSync(file, { force: true });
+    return null;
+  }
+  return session;
+}
+
+/** Record a completed exchange and persist the session. Returns the reply's message id. */
+export function appendExchange(
+  domain: string,
+  session: ChatSession,
+  message: string,
+  reply: string,
+  { sources, citations, fallback }: { sources: string[]; citations: Citation[]; fallback?: boolean },
+): string {
+  const at = new Date().toISOString();
+  const id = randomUUID();
+  session.messages.push(
+    { role: "user", text: message, at },
+    { role: "assistant", text: reply, at, id, sources, citations, ...(fallback ? { fallback } : {}) },
+  );
+  session.messages = session.messages.slice(-MAX_STORED_MESSAGES);
+  session.updatedAt = at;
+  fs.writeFileSync(sessionPath(domain, session.id), JSON.stringify(session));
+  return id;
+}
+
+/** Record that the visitor asked for a human follow-up, so it's sent only once */
+export function markHandoff(domain: string, session: ChatSession): void {
+  session.handoffAt = new Date().toISOString();
+  fs.writeFileSync(sessionPath(domain, session.id), JSON.stringify(session));
+}
+
+/** Find a reply by message id, with the message that prompted it */
+export function findExchange(
+  session: ChatSession,
+  messageId: string,
+): { query: string; reply: SessionMessage } | null {
+  const i = session.messages.findIndex((m) => m.role === "assistant" && m.id === messageId);
+  if (i < 0) return null;
+  const prompt = session.messages[i - 1];
+  return { query: prompt?.role === "user" ? prompt.text : "", reply: session.messages[i] };
+}
+
+/** The recent turns of a session, as LLM history */
+export function sessionHistory(session: ChatSession): ChatMessage[] {
+  return session.messages.slice(-HISTORY_MESSAGES).map(({ role, text }) => ({ role, text }));
+}
+
+/** Delete expired session files. Returns how many were removed. */
+export function pruneSessions(domain: string, ttlMinutes: number): number {
+  const dir = domainSubdir(domain, "sessions");
+  let removed = 0;
+  for (const name of fs.readdirSync(dir)) {
+    if (!name.endsWith(".json")) continue;
+    const file = path.join(dir, name);
+    try {
+      if (isExpired(fs.statSync(file).mtime, ttlMinutes)) {
+        fs.rmSync(file, { force: true });
+        removed++;
+      }
+    } catch {
+      // Removed concurrently
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,280 @@
+/**
+ * Incremental, idempotent ingestion.
+ *
+ * Documents get stable ids derived from their title, and a content hash.
+ * Re-running a sync only embeds new or changed sections, reuses embeddings
+ * for content that merely moved or was renamed, and deletes documents that
+ * are no longer present. Everything that needs embedding is embedded in
+ * one batched pass, and the store is written once at the end, merged with
+ * anything written to the domain meanwhile.
+ *
+ * Embeddings come from the domain's embedding model. A sync that would mix
+ * vectors from two models is refused; ragchat_reembed switches models.
+ */
+
+import { createHash } from "crypto";
+import {
+  assertEmbeddingModel,
+  loadDomainConfig,
+  loadVectors,
+  saveVectors,
+  storedEmbeddingModel,
+  type EmbeddingInfo,
+  type VectorDocument,
+} from "./vector-store";
+import { generateEmbeddings, resolveEmbeddingModel, type EmbeddingModel } from "./embeddings";
+import type { Chunk } from "./chunking";
+import { detectInjection } from "./guardrails";
+
+export interface SyncReport {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  unchanged: string[];
+  failed: Array<{ title: string; error: string }>;
+  /** Added or updated documents that look like prompt injection, with the patterns matched */
+  suspicious: Array<{ id: string; patterns: string[] }>;
+}
+
+export interface SyncOptions {
+  /** Drop every existing document in scope and embed from scratch */
+  reset?: boolean;
+  /** Only documents matching this are compared or removed; others are left alone */
+  scope?: (doc: VectorDocument) => boolean;
+  /** Called as sections are embedded */
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface ReembedReport {
+  from: EmbeddingInfo | null;
+  to: EmbeddingInfo;
+  documents: number;
+  /** Documents added or changed while re-embedding, included before the switch */
+  caughtUp: number;
+}
+
+/** Catch-up passes before giving up on a domain that keeps changing */
+const MAX_CATCH_UP_ROUNDS = 5;
+
+interface PendingDocument {
+  slot: number;
+  id: string;
+  title: string;
+  text: string;
+  source?: string;
+  url?: string;
+  contentHash: string;
+  prev?: VectorDocument;
+}
+
+/** Short, stable hex digest */
+export function hashText(text: string): string {
+  return createHash("sha256").update(text).digest("hex").slice(0, 16);
+}
+
+/**
+ * Stable document id from its title (and source file, if any).
+ * Repeated titles get an occurrence suffix.
+ */
+export function stableId(
+  domain: string,
+  title: string,
+  source?: string,
+  occurrence = 1,
+): string {
+  const key = `${source ? `${source}#` : ""}${title.trim().toLowerCase()}`;
+  const id = `${domain}-${hashText(key).slice(0, 12)}`;
+  return occurrence > 1 ? `${id}-${occurrence}` : id;
+}
+
+/** Bring a domain's documents in line with the given chunks */
+export async function syncDocuments(
+  domain: string,
+  chunks: Chunk[],
+  { reset = false, scope = () => true, onProgress }: SyncOptions = {},
+): Promise<SyncReport> {
+  const model = resolveEmbeddingModel(loadDomainConfig(domain)?.embedding ?? {});
+  const all = loadVectors(domain);
+  const outside = all.filter((d) => !scope(d));
+  // A full reset keeps no old vectors, so it may switch models
+  if (!reset || outside.length > 0) assertEmbeddingModel(domain, model);
+  const existing = reset ? [] : all.filter(scope);
+  const byId = new Map(existing.map((d) => [d.id, d]));
+  // Embeddings by content, so moved or renamed sections aren't re-embedded
+  const byHash = new Map<string, number[] | Error>(
+    existing.map((d) => [d.contentHash || hashText(d.content), d.embedding]),
+  );
+
+  const report: SyncReport = {
+    added: [],
+    updated: [],
+    removed: [],
+    unchanged: [],
+    failed: [],
+    suspicious: [],
+  };
+  // One slot per chunk, so documents keep the order of the content
+  const next: Array<VectorDocument | null> = [];
+  const pending: PendingDocument[] = [];
+  const seen = new Map<string, number>();
+
+  for (const { title, text, source, url } of chunks) {
+    const key = `${source || ""}#${title.trim().toLowerCase()}`;
+    const occurrence = (seen.get(key) || 0) + 1;
+    seen.set(key, occurrence);
+
+    const id = stableId(domain, title, source, occurrence);
+    const contentHash = hashText(text);
+    const prev = byId.get(id);
+
+    if (prev && (prev.contentHash || hashText(prev.content)) === contentHash && prev.title === title) {
+      // A changed URL is metadata only; no need to re-embed
+      next.push({ ...prev, contentHash, url });
+      report.unchanged.push(id);
+      continue;
+    }
+    pending.push({ slot: next.length, id, title, text, source, url, contentHash, prev });
+    next.push(null);
+  }
+
+  const toEmbed = [...new Set(pending.filter((p) => !byHash.has(p.contentHash)).map((p) => p.text))];
+  const embedded = await generateEmbeddings(toEmbed, { onProgress, model });
+  toEmbed.forEach((text, i) => byHash.set(hashText(text), embedded[i]));
+
+  for (const { slot, id, title, text, source, url, contentHash, prev } of pending) {
+    const embedding = byHash.get(contentHash)!;
+    if (embedding instanceof Error) {
+      // Keep serving the previous version rather than losing the section
+      if (prev) next[slot] = prev;
+      report.failed.push({ title, error: embedding.message });
+      continue;
+    }
+
+    next[slot] = {
+      id,
+      title,
+      content: text,
+      ...(source ? { source } : {}),
+      ...(url ? { url } : {}),
+      contentHash,
+      embedding,
+      createdAt: prev?.createdAt || new Date().toISOString(),
+      updatedAt: prev ? new Date().toISOString() : undefined,
+    };
+    (prev ? report.updated : report.added).push(id);
+    const patterns = detectInjection(text);
+    if (patterns.length > 0) report.suspicious.push({ id, patterns });
+  }
+
+  // Documents written while embedding was in flight win over this sync's
+  // view. No await between loading and saving, so nothing written here is lost.
+  const current = loadVectors(domain);
+  const before = new Map(all.map((d) => [d.id, d]));
+  const after = new Set(current.map((d) => d.id));
+  const unchanged = new Set(report.unchanged);
+  const touched = new Set(
+    current.filter((d) => changedSince(before.get(d.id), d)).map((d) => d.id),
+  );
+  const docs = next.filter(
+    (d): d is VectorDocument =>
+      d !== null &&
+      !touched.has(d.id) &&
+      // Deleted meanwhile: only bring it back if this sync changed it
+      (after.has(d.id) || !unchanged.has(d.id)),
+  );
+  const kept = new Set(docs.map((d) => d.id));
+  for (const doc of reset ? all.filter(scope) : existing) {
+    if (!kept.has(doc.id) && !touched.has(doc.id) && after.has(doc.id)) report.removed.push(doc.id);
+  }
+
+  const others = current.filter((d) => (!scope(d) || touched.has(d.id)) && !kept.has(d.id));
+  saveVectors(domain, [...others, ...docs], model);
+  return report;
+}
+
+/** Whether a document was added or rewritten after `before` was loaded */
+function changedSince(before: VectorDocument | undefined, doc: VectorDocument): boolean {
+  if (!before) return true;
+  const hashOf = (d: VectorDocument) => d.contentHash || hashText(d.content);
+  return (
+    hashOf(before) !== hashOf(doc) ||
+    before.title !== doc.title ||
+    before.updatedAt !== doc.updatedAt ||
+    before.createdAt !== doc.createdAt
+  );
+}
+
+/** Embed texts, failing on the first error */
+async function embedAll(
+  texts: string[],
+  model: EmbeddingModel,
+  onProgress?: (done: number, total: number) => void,
+): Promise<Map<string, number[]>> {
+  const embedded = await generateEmbeddings(texts, { model, onProgress });
+  const byHash = new Map<string, number[]>();
+  texts.forEach((text, i) => {
+    const embedding = embedded[i];
+    if (embedding instanceof Error) throw new Error(`Re-embedding failed: ${embedding.message}`);
+    byHash.set(hashText(text), embedding);
+  });
+  return byHash;
+}
+
+/**
+ * Re-embed every document of a domain with another model. The current
+ * vectors keep serving until all new embeddings are ready, then the store
+ * is replaced in one write. Documents written meanwhile are embedded
+ * before the switch. On failure the domain is left as it was.
+ */
+export async function reembedDocuments(
+  domain: string,
+  model: EmbeddingModel,
+  { onProgress }: { onProgress?: (done: number, total: number) => void } = {},
+): Promise<ReembedReport> {
+  const from = storedEmbeddingModel(domain);
+  const hashOf = (d: VectorDocument) => d.contentHash || hashText(d.content);
+  const snapshot = loadVectors(domain);
+  if (snapshot.length === 0) throw new Error(`Domain "${domain}" has no documents to re-embed`);
+
+  const byHash = await embedAll([...new Set(snapshot.map((d) => d.content))], model, onProgress);
+  const initial = new Set(snapshot.map(hashOf));
+
+  for (let round = 0; ; round++) {
+    const current = loadVectors(domain);
+    const missing = [...new Set(current.filter((d) => !byHash.has(hashOf(d))).map((d) => d.content))];
+    if (missing.length === 0) {
+      // No await between loading and saving, so nothing written here is lost
+      const docs = current.map((d) => ({ ...d, embedding: byHash.get(hashOf(d))! }));
+      saveVectors(domain, docs, model);
+      return {
+        from,
+        to: { ...model, dim: docs[0]?.embedding.length ?? 0 },
+        documents: docs.length,
+        caughtUp: current.filter((d) => !initial.has(hashOf(d))).length,
+      };
+    }
+    if (round >= MAX_CATCH_UP_ROUNDS) {
+      throw new Error(`Domain "${domain}" kept changing while re-embedding. Try again when ingestion is idle.`);
+    }
+    for (const [hash, embedding] of await embedAll(missing, model)) byHash.set(hash, embedding);
+  }
+}
+
+/** Human-readable diff summary, for tool output */
+export function formatSyncReport(report: SyncReport): string {
+  const lines = [
+    `Added: ${report.added.length}, updated: ${report.updated.length}, removed: ${report.removed.length}, unchanged: ${report.unchanged.length}`,
+  ];
+  if (report.added.length > 0) lines.push(`+ ${report.added.join(", ")}`);
+  if (report.updated.length > 0) lines.push(`~ ${report.updated.join(", ")}`);
+  if (report.removed.length > 0) lines.push(`- ${report.removed.join(", ")}`);
+  if (report.failed.length > 0) {
+    lines.push(`Errors:\n${report.failed.map((f) => `"${f.title}": ${f.error}`).join("\n")}`);
+  }
+  if (report.suspicious.length > 0) {
+    lines.push(
+      `Possible prompt injection (review these documents; guardrails.documents "drop" keeps them out of answers):\n${report.suspicious.map((d) => `! ${d.id} (${d.patterns.join(", ")})`).join("\n")}`,
+    );
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,330 @@
+/**
+ * In-memory vector search: an exact scan, and an HNSW approximate
+ * nearest-neighbor index for large domains.
+ *
+ * HNSW (Malkov & Yashunin) is a layered proximity graph. Upper layers are
+ * sparse express lanes; layer 0 links every vector to its closest
+ * neighbors. A search descends greedily through the upper layers, then
+ * explores `ef` candidates on layer 0. Similarity is cosine, computed from
+ * the raw vectors and their norms so stored embeddings stay untouched.
+ */
+
+export interface VectorMatrix {
+  dim: number;
+  count: number;
+  /** count × dim, row-major */
+  data: Float32Array;
+  /** Euclidean norm of each row */
+  norms: Float32Array;
+}
+
+export interface ScoredRow {
+  row: number;
+  score: number;
+}
+
+export interface HnswIndex {
+  /** Neighbors per node on upper layers; layer 0 allows twice as many */
+  m: number;
+  entryPoint: number;
+  maxLevel: number;
+  /** links[node][level]: neighbor rows */
+  links: number[][][];
+}
+
+const HNSW_VERSION = 1;
+
+/** Build a matrix from rows of equal length */
+export function buildMatrix(rows: ArrayLike<number>[], dim: number): VectorMatrix {
+  const data = new Float32Array(rows.length * dim);
+  rows.forEach((row, i) => data.set(row, i * dim));
+  return { dim, count: rows.length, data, norms: rowNorms(data, rows.length, dim) };
+}
+
+export function rowNorms(data: Float32Array, count: number, dim: number): Float32Array {
+  const norms = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    let sum = 0;
+    for (let k = i * dim; k < (i + 1) * dim; k++) sum += data[k] * data[k];
+    norms[i] = Math.sqrt(sum);
+  }
+  return norms;
+}
+
+/** A copy of a vector scaled to unit length (zero vectors stay zero) */
+export function unitVector(vector: ArrayLike<number>): Float32Array {
+  const unit = Float32Array.from(vector);
+  let sum = 0;
+  for (let k = 0; k < unit.length; k++) sum += unit[k] * unit[k];
+  const norm = Math.sqrt(sum);
+  if (norm > 0) for (let k = 0; k < unit.length; k++) unit[k] /= norm;
+  return unit;
+}
+
+/** Cosine similarity between a row and a unit-length query */
+function similarity(matrix: VectorMatrix, row: number, query: Float32Array): number {
+  const norm = matrix.norms[row];
+  if (norm === 0) return 0;
+  const { data, dim } = matrix;
+  const offset = row * dim;
+  let dot = 0;
+  for (let k = 0; k < dim; k++) dot += data[offset + k] * query[k];
+  return dot / norm;
+}
+
+/** Score every row: exact, and linear in the number of rows */
+export function exactSearch(
+  matrix: VectorMatrix,
+  query: Float32Array,
+  limit: number,
+  minScore: number,
+): ScoredRow[] {
+  const hits: ScoredRow[] = [];
+  for (let row = 0; row < matrix.count; row++) {
+    const score = similarity(matrix, row, query);
+    if (score >= minScore) hits.push({ row, score });
+  }
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/** Binary heap ordered by `before` (the top is the item that comes first) */
+class Heap<T> {
+  private items: T[] = [];
+
+  constructor(private before: (a: T, b: T) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length === 0 || last === undefined) return top;
+    items[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let next = i;
+      if (left < items.length && this.before(items[left], items[next])) next = left;
+      if (right < items.length && this.before(items[right], items[next])) next = right;
+      if (next === i) break;
+      [items[i], items[next]] = [items[next], items[i]];
+      i = next;
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
+
+/** Best-first search of one layer, keeping the `ef` most similar rows found */
+function searchLayer(
+  matrix: VectorMatrix,
+  index: HnswIndex,
+  query: Float32Array,
+  entries: ScoredRow[],
+  ef: number,
+  level: number,
+): ScoredRow[] {
+  const visited = new Set(entries.map((e) => e.row));
+  const candidates = new Heap<ScoredRow>((a, b) => a.score > b.score);
+  const found = new Heap<ScoredRow>((a, b) => a.score < b.score);
+  for (const e of entries) {
+    candidates.push(e);
+    found.push(e);
+    if (found.size > ef) found.pop();
+  }
+
+  while (candidates.size > 0) {
+    const current = candidates.pop()!;
+    if (found.size >= ef && current.score < found.peek()!.score) break;
+    for (const row of index.links[current.row][level] || []) {
+      if (visited.has(row)) continue;
+      visited.add(row);
+      const score = similarity(matrix, row, query);
+      if (found.size < ef || score > found.peek()!.score) {
+        candidates.push({ row, score });
+        found.push({ row, score });
+        if (found.size > ef) found.pop();
+      }
+    }
+  }
+  return found.toArray().sort((a, b) => b.score - a.score);
+}
+
+/** Deterministic PRNG, so rebuilding the same vectors yields the same graph */
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** A copy of the matrix with every row scaled to unit length */
+function unitMatrix(matrix: VectorMatrix): VectorMatrix {
+  const { dim, count } = matrix;
+  const data = new Float32Array(count * dim);
+  const norms = new Float32Array(count);
+  for (let row = 0; row < count; row++) {
+    const norm = matrix.norms[row];
+    if (norm === 0) continue;
+    for (let k = row * dim; k < (row + 1) * dim; k++) data[k] = matrix.data[k] / norm;
+    norms[row] = 1;
+  }
+  return { dim, count, data, norms };
+}
+
+/** A row of a unit matrix, usable as a query without copying */
+function rowOf(unit: VectorMatrix, row: number): Float32Array {
+  return unit.data.subarray(row * unit.dim, (row + 1) * unit.dim);
+}
+
+/** Build an HNSW index over every row of a matrix */
+export function buildHnsw(
+  matrix: VectorMatrix,
+  { m = 16, efConstruction = 64 }: { m?: number; efConstruction?: number } = {},
+): HnswIndex {
+  // Rows are compared with each other throughout, so normalize them once
+  const unit = unitMatrix(matrix);
+  const random = mulberry32(42);
+  const levelScale = 1 / Math.log(m);
+  const index: HnswIndex = { m, entryPoint: -1, maxLevel: -1, links: [] };
+
+  for (let row = 0; row < matrix.count; row++) {
+    const level = Math.floor(-Math.log(1 - random()) * levelScale);
+    index.links[row] = Array.from({ length: level + 1 }, () => []);
+    if (index.entryPoint < 0) {
+      index.entryPoint = row;
+      index.maxLevel = level;
+      continue;
+    }
+
+    const query = rowOf(unit, row);
+    let entries = [{ row: index.entryPoint, score: similarity(unit, index.entryPoint, query) }];
+    for (let l = index.maxLevel; l > level; l--) {
+      entries = searchLayer(unit, index, query, entries, 1, l);
+    }
+    for (let l = Math.min(level, index.maxLevel); l >= 0; l--) {
+      entries = searchLayer(unit, index, query, entries, efConstruction, l);
+      const maxLinks = l === 0 ? m * 2 : m;
+      const neighbors = selectNeighbors(unit, entries, m);
+      index.links[row][l] = neighbors;
+      for (const neighbor of neighbors) {
+        const list = index.links[neighbor][l];
+        list.push(row);
+        if (list.length > maxLinks) pruneLinks(unit, neighbor, list, maxLinks);
+      }
+    }
+    if (level > index.maxLevel) {
+      index.entryPoint = row;
+      index.maxLevel = level;
+    }
+  }
+  return index;
+}
+
+/**
+ * Pick up to `max` neighbors from candidates sorted by similarity, skipping
+ * any that is closer to an already picked neighbor than to the node itself.
+ * Links then point in different directions, which keeps clusters connected
+ * to each other. Remaining slots are filled with the closest skipped ones.
+ */
+function selectNeighbors(unit: VectorMatrix, candidates: ScoredRow[], max: number): number[] {
+  const picked: ScoredRow[] = [];
+  const skipped: ScoredRow[] = [];
+  for (const c of candidates) {
+    if (picked.length >= max) break;
+    const query = rowOf(unit, c.row);
+    if (picked.every((p) => similarity(unit, p.row, query) < c.score)) picked.push(c);
+    else skipped.push(c);
+  }
+  for (const c of skipped) {
+    if (picked.length >= max) break;
+    picked.push(c);
+  }
+  return picked.map((p) => p.row);
+}
+
+/** Keep a node's `max` most similar neighbors */
+function pruneLinks(unit: VectorMatrix, row: number, list: number[], max: number): void {
+  const query = rowOf(unit, row);
+  const candidates = list
+    .map((r) => ({ row: r, score: similarity(unit, r, query) }))
+    .sort((a, b) => b.score - a.score);
+  list.splice(0, list.length, ...candidates.slice(0, max).map((c) => c.row));
+}
+
+/** Approximate top-`limit` rows for a unit-length query */
+export function searchHnsw(
+  matrix: VectorMatrix,
+  index: HnswIndex,
+  query: Float32Array,
+  limit: number,
+  ef: number,
+): ScoredRow[] {
+  if (index.entryPoint < 0) return [];
+  let entries = [{ row: index.entryPoint, score: similarity(matrix, index.entryPoint, query) }];
+  for (let l = index.maxLevel; l > 0; l--) {
+    entries = searchLayer(matrix, index, query, entries, 1, l);
+  }
+  return searchLayer(matrix, index, query, entries, Math.max(ef, limit), 0).slice(0, limit);
+}
+
+/**
+ * Serialize an index as int32s: a header (version, generation, count, m,
+ * entry point, max level), then per node its level and, per layer, a
+ * neighbor count followed by the neighbors. `generation` ties the index to
+ * the vector file it was built from.
+ */
+export function serializeHnsw(index: HnswIndex, generation: number): Buffer {
+  const words = [HNSW_VERSION, generation, index.links.length, index.m, index.entryPoint, index.maxLevel];
+  for (const layers of index.links) {
+    words.push(layers.length - 1);
+    for (const neighbors of layers) words.push(neighbors.length, ...neighbors);
+  }
+  return Buffer.from(Int32Array.from(words).buffer);
+}
+
+/** Read a serialized index. Returns null if it belongs to other vectors. */
+export function deserializeHnsw(buf: Buffer, generation: number, count: number): HnswIndex | null {
+  if (buf.length < 24 || buf.length % 4 !== 0) return null;
+  const words = new Int32Array(buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.length));
+  if (words[0] !== HNSW_VERSION || words[1] !== generation || words[2] !== count) return null;
+
+  const index: HnswIndex = { m: words[3], entryPoint: words[4], maxLevel: words[5], links: [] };
+  let i = 6;
+  for (let row = 0; row < count; row++) {
+    const level = words[i++];
+    const layers: number[][] = [];
+    for (let l = 0; l <= level; l++) {
+      const n = words[i++];
+      layers.push(Array.from(words.subarray(i, i + n)));
+      i += n;
+    }
+    index.links.push(layers);
+  }
+  return i === words.length ? index : null;
+}
@@ -1,14 +1,59 @@
 /**
  * Local file-based vector store.
  *
- * Stores embeddings as JSON in ~/.mcp-ragchat/domains/{domain}/
- * Uses cosine similarity for search. Zero external dependencies.
+ * Each domain lives in ~/.mcp-ragchat/domains/{domain}/
+ * (or $RAGCHAT_DATA_DIR/domains/{domain}/):
+ *   documents.json — document text and metadata, in row order
+ *   vectors.bin    — embeddings, Float32 or int8-quantized (see below)
+ *   ann.bin        — HNSW graph for large domains (see vector-index.ts)
+ *   lexical.json   — BM25 keyword index
+ *
+ * documents.json also records the embedding provider, model and dimensions
+ * the vectors came from; queries and writes with another model are refused.
+ *
+ * Loaded stores are cached in memory and reused until the files change,
+ * whether this process or another one wrote them. Small domains are
+ * searched exactly; from vectorIndex.annMinDocs documents on, vector search
+ * goes through the ANN index. Zero external dependencies.
  */
 
 import * as fs from "fs";
 import * as path from "path";
+import {
+  buildLexicalIndex,
+  searchLexicalIndex,
+  type LexicalIndex,
+} from "./lexical";
+import {
+  buildHnsw,
+  buildMatrix,
+  deserializeHnsw,
+  exactSearch,
+  rowNorms,
+  searchHnsw,
+  serializeHnsw,
+  unitVector,
+  type HnswIndex,
+  type ScoredRow,
+  type VectorMatrix,
+} from "./vector-index";
+import type { EmbeddingModel } from "./embeddings";
+import {
+  parseDomainConfig,
+  vectorIndexSchema,
+  type DomainConfig,
+  type DomainConfigInput,
+  type VectorIndexSettings,
+} from "./config";
 
-const BASE_DIR = path.join(process.env.HOME || "~", ".mcp-ragchat", "domains");
+/** Root data directory: RAGCHAT_DATA_DIR, else ~/.mcp-ragchat */
+export function dataDir(): string {
+  return process.env.RAGCHAT_DATA_DIR || path.join(process.env.HOME || "~", ".mcp-ragchat");
+}
+
+function domainsDir(): string {
+  return path.join(dataDir(), "domains");
+}
 
 export interface VectorDocument {
   id: string;
@@ -16,108 +61,566 @@ export interface VectorDocument {
   content: string;
   embedding: number[];
   createdAt: string;
+  /** Hash of `content`, used to skip re-embedding unchanged sections */
+  contentHash?: string;
+  /** File the document was ingested from, if any */
+  source?: string;
+  /** Public page for this document, shown to visitors in citations */
+  url?: string;
+  updatedAt?: string;
 }
 
 export interface SearchResult {
   id: string;
   title: string;
   content: string;
+  source?: string;
+  url?: string;
   score: number;
+  /** Cosine similarity to the query, when vector search found the document */
+  similarity?: number;
+}
+
+/** How a domain retrieves context: embeddings, BM25 keywords, or both fused */
+export type SearchMode = "vector" | "keyword" | "hybrid";
+
+export type VectorFormat = VectorIndexSettings["quantization"];
+
+/** The model a domain's vectors were embedded with */
+export interface EmbeddingInfo extends EmbeddingModel {
+  dim: number;
+}
+
+/** Thrown when a query or write uses a different embedding model than the stored vectors */
+export class EmbeddingMismatchError extends Error {}
+
+export interface VectorIndexInfo {
+  documents: number;
+  dim: number;
+  /** null for stores written before models were recorded */
+  embedding: EmbeddingInfo | null;
+  format: VectorFormat;
+  vectorBytes: number;
+  /** "exact", or "hnsw" when vector search goes through the ANN index */
+  search: "exact" | "hnsw";
+  annBytes: number;
+}
+
+export interface AnnRecall {
+  samples: number;
+  k: number;
+  /** Share of the exact top-k the ANN index also returned, 0..1 */
+  recall: number;
+  exactMs: number;
+  annMs: number;
+}
+
+/** Document metadata as kept in documents.json; embeddings live in vectors.bin */
+type StoredDocument = Omit<VectorDocument, "embedding">;
+
+interface DocumentsFile {
+  embedding: EmbeddingInfo | null;
+  documents: StoredDocument[];
 }
 
+interface LoadedStore {
+  /** File sizes and mtimes the store was loaded from */
+  stamp: string;
+  embedding: EmbeddingInfo | null;
+  docs: StoredDocument[];
+  matrix: VectorMatrix;
+  format: VectorFormat;
+  /** Random id written with the vectors, so ann.bin can tell it is current */
+  generation: number;
+  lexical?: LexicalIndex;
+  ann?: HnswIndex;
+}
+
+/** Reciprocal rank fusion constant */
+const RRF_K = 60;
+
+/**
+ * vectors.bin layout, little-endian: "RCV1", format (0 float32, 1 int8),
+ * 3 reserved bytes, row count, dimensions, generation. Then either
+ * count × dim float32s, or count float32 scales followed by count × dim
+ * int8s (value = int8 × scale).
+ */
+const VECTORS_MAGIC = "RCV1";
+const VECTORS_HEADER_BYTES = 20;
+
+const stores = new Map<string, LoadedStore>();
+
 function domainDir(domain: string): string {
-  const dir = path.join(BASE_DIR, domain.replace(/[^a-zA-Z0-9.-]/g, "_"));
+  const dir = path.join(domainsDir(), domain.replace(/[^a-zA-Z0-9.-]/g, "_"));
   if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
   return dir;
 }
 
+/** A subdirectory of the domain's data directory (sessions, logs...), created on demand */
+export function domainSubdir(domain: string, name: string): string {
+  const dir = path.join(domainDir(domain), name);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+function documentsPath(domain: string): string {
+  return path.join(domainDir(domain), "documents.json");
+}
+
 function vectorsPath(domain: string): string {
-  return path.join(domainDir(domain), "vectors.json");
+  return path.join(domainDir(domain), "vectors.bin");
+}
+
+function annPath(domain: string): string {
+  return path.join(domainDir(domain), "ann.bin");
+}
+
+function lexicalPath(domain: string): string {
+  return path.join(domainDir(domain), "lexical.json");
 }
 
 function configPath(domain: string): string {
   return path.join(domainDir(domain), "config.json");
 }
 
+/** Write via a temp file, so readers never see a half-written file */
+function writeAtomic(file: string, data: string | Buffer): void {
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, data);
+  fs.renameSync(tmp, file);
+}
+
+function vectorSettings(domain: string): VectorIndexSettings {
+  return loadDomainConfig(domain)?.vectorIndex ?? vectorIndexSchema.parse({});
+}
+
+function encodeVectors(docs: VectorDocument[], format: VectorFormat, generation: number): Buffer {
+  const dim = docs[0]?.embedding.length ?? 0;
+  for (const doc of docs) {
+    if (doc.embedding.length !== dim) {
+      throw new Error(
+        `Document "${doc.id}" has a ${doc.embedding.length}-dimensional embedding, others have ${dim}. All documents in a domain must use the same embedding model.`,
+      );
+    }
+  }
+
+  const header = Buffer.alloc(VECTORS_HEADER_BYTES);
+  header.write(VECTORS_MAGIC, 0, "latin1");
+  header.writeUInt8(format === "int8" ? 1 : 0, 4);
+  header.writeUInt32LE(docs.length, 8);
+  header.writeUInt32LE(dim, 12);
+  header.writeInt32LE(generation, 16);
+
+  if (format === "float32") {
+    const data = new Float32Array(docs.length * dim);
+    docs.forEach((doc, i) => data.set(doc.embedding, i * dim));
+    return Buffer.concat([header, Buffer.from(data.buffer)]);
+  }
+
+  // Symmetric per-vector quantization: the largest component maps to ±127
+  const scales = new Float32Array(docs.length);
+  const values = new Int8Array(docs.length * dim);
+  docs.forEach((doc, i) => {
+    const maxAbs = doc.embedding.reduce((max, v) => Math.max(max, Math.abs(v)), 0);
+    const scale = maxAbs / 127;
+    scales[i] = scale;
+    if (scale > 0) doc.embedding.forEach((v, k) => (values[i * dim + k] = Math.round(v / scale)));
+  });
+  return Buffer.concat([header, Buffer.from(scales.buffer), Buffer.from(values.buffer)]);
+}
+
+function decodeVectors(
+  buf: Buffer,
+  domain: string,
+): { format: VectorFormat; generation: number; matrix: VectorMatrix } {
+  if (buf.length < VECTORS_HEADER_BYTES || buf.toString("latin1", 0, 4) !== VECTORS_MAGIC) {
+    throw new Error(`Vector file for "${domain}" is not in a known format`);
+  }
+  const format: VectorFormat = buf.readUInt8(4) === 1 ? "int8" : "float32";
+  const count = buf.readUInt32LE(8);
+  const dim = buf.readUInt32LE(12);
+  const generation = buf.readInt32LE(16);
+  const body = buf.byteOffset + VECTORS_HEADER_BYTES;
+  const expected = VECTORS_HEADER_BYTES + count * (format === "int8" ? 4 + dim : dim * 4);
+  if (buf.length !== expected) throw new Error(`Vector file for "${domain}" is truncated`);
+
+  let data: Float32Array;
+  if (format === "float32") {
+    data = new Float32Array(buf.buffer.slice(body, body + count * dim * 4));
+  } else {
+    const scales = new Float32Array(buf.buffer.slice(body, body + count * 4));
+    const values = new Int8Array(buf.buffer.slice(body + count * 4, body + count * 4 + count * dim));
+    data = new Float32Array(count * dim);
+    for (let row = 0; row < count; row++) {
+      for (let k = row * dim; k < (row + 1) * dim; k++) data[k] = values[k] * scales[row];
+    }
+  }
+  return { format, generation, matrix: { dim, count, data, norms: rowNorms(data, count, dim) } };
+}
+
+/** Convert a vectors.json store from older versions to the binary format */
+function migrateLegacyStore(domain: string): void {
+  const legacy = path.join(domainDir(domain), "vectors.json");
+  if (!fs.existsSync(legacy)) return;
+  if (!fs.existsSync(documentsPath(domain))) {
+    saveVectors(domain, JSON.parse(fs.readFileSync(legacy, "utf-8")));
+  }
+  fs.rmSync(legacy, { force: true });
+}
+
+/** Identifies the current contents of a domain's store files, or null if it has none */
+function storeStamp(domain: string): string | null {
+  try {
+    const docs = fs.statSync(documentsPath(domain));
+    const vectors = fs.statSync(vectorsPath(domain));
+    return `${docs.mtimeMs}:${docs.size}:${vectors.mtimeMs}:${vectors.size}`;
+  } catch {
+    return null;
+  }
+}
+
+/** The domain's documents and vectors, from the cache while the files are unchanged */
+function openStore(domain: string): LoadedStore {
+  migrateLegacyStore(domain);
+  const key = domainDir(domain);
+  const stamp = storeStamp(domain);
+  const cached = stores.get(key);
+  if (cached && cached.stamp === stamp) return cached;
+
+  if (!stamp) {
+    stores.delete(key);
+    return {
+      stamp: "",
+      embedding: null,
+      docs: [],
+      matrix: buildMatrix([], 0),
+      format: "float32",
+      generation: 0,
+    };
+  }
+
+  const parsed = JSON.parse(fs.readFileSync(documentsPath(domain), "utf-8"));
+  // A bare array: written before embedding models were recorded
+  const { embedding, documents: docs }: DocumentsFile = Array.isArray(parsed)
+    ? { embedding: null, documents: parsed }
+    : parsed;
+  const { format, generation, matrix } = decodeVectors(fs.readFileSync(vectorsPath(domain)), domain);
+  if (matrix.count !== docs.length) {
+    throw new Error(
+      `Vector store for "${domain}" is inconsistent (${docs.length} documents, ${matrix.count} vectors). Re-ingest the domain.`,
+    );
+  }
+  const store: LoadedStore = { stamp, embedding, docs, matrix, format, generation };
+  stores.set(key, store);
+  return store;
+}
+
+function embeddingAt(store: LoadedStore, row: number): number[] {
+  const { data, dim } = store.matrix;
+  return Array.from(data.subarray(row * dim, (row + 1) * dim));
+}
+
 /** Load all vectors for a domain */
 export function loadVectors(domain: string): VectorDocument[] {
-  const p = vectorsPath(domain);
-  if (!fs.existsSync(p)) return [];
-  return JSON.parse(fs.readFileSync(p, "utf-8"));
+  const store = openStore(domain);
+  return store.docs.map((doc, row) => ({ ...doc, embedding: embeddingAt(store, row) }));
 }
 
-/** Save vectors for a domain */
-export function saveVectors(domain: string, docs: VectorDocument[]): void {
-  fs.writeFileSync(vectorsPath(domain), JSON.stringify(docs, null, 2));
+/**
+ * Save vectors for a domain, rebuilding its keyword and ANN indexes.
+ * `model` records where the embeddings came from (null: unknown); without
+ * it the domain keeps its current record.
+ */
+export function saveVectors(
+  domain: string,
+  docs: VectorDocument[],
+  model?: EmbeddingModel | null,
+): void {
+  const settings = vectorSettings(domain);
+  // (no documents.json yet while a legacy store is being converted)
+  const source =
+    model !== undefined
+      ? model
+      : fs.existsSync(documentsPath(domain))
+        ? openStore(domain).embedding
+        : null;
+  const file: DocumentsFile = {
+    embedding:
+      source && docs.length > 0
+        ? { provider: source.provider, model: source.model, dim: docs[0].embedding.length }
+        : null,
+    documents: docs.map(({ embedding, ...meta }) => meta),
+  };
+  const generation = Math.floor(Math.random() * 0x7fffffff);
+  // Vectors first: a reader that sees the new documents.json also sees its vectors
+  writeAtomic(vectorsPath(domain), encodeVectors(docs, settings.quantization, generation));
+  writeAtomic(documentsPath(domain), JSON.stringify(file));
+  writeAtomic(lexicalPath(domain), JSON.stringify(buildLexicalIndex(docs)));
+  fs.rmSync(annPath(domain), { force: true });
+  stores.delete(domainDir(domain));
+
+  // Pay for the ANN build here rather than on the first chat message
+  if (annWanted(settings, docs.length)) annIndex(domain, openStore(domain));
+}
+
+function annWanted(settings: VectorIndexSettings, count: number): boolean {
+  return settings.ann && count >= settings.annMinDocs;
+}
+
+/** The store's ANN index: cached, else read from ann.bin, else built and written */
+function annIndex(domain: string, store: LoadedStore): HnswIndex {
+  if (store.ann) return store.ann;
+  const file = annPath(domain);
+  let index = fs.existsSync(file)
+    ? deserializeHnsw(fs.readFileSync(file), store.generation, store.matrix.count)
+    : null;
+  if (!index) {
+    index = buildHnsw(store.matrix);
+    writeAtomic(file, serializeHnsw(index, store.generation));
+  }
+  store.ann = index;
+  return index;
+}
+
+/** Load the keyword index, rebuilding it for domains created before it existed */
+function lexicalIndex(domain: string, store: LoadedStore): LexicalIndex {
+  if (store.lexical) return store.lexical;
+  const p = lexicalPath(domain);
+  if (fs.existsSync(p)) {
+    const index: LexicalIndex = JSON.parse(fs.readFileSync(p, "utf-8"));
+    if (index.docCount === store.docs.length) return (store.lexical = index);
+  }
+  const index = buildLexicalIndex(store.docs);
+  fs.writeFileSync(p, JSON.stringify(index));
+  return (store.lexical = index);
+}
+
+function describeModel(m: EmbeddingModel): string {
+  return `${m.provider} / ${m.model}`;
+}
+
+/**
+ * Throw unless `model` is the one the domain's vectors were embedded with.
+ * Stores written before models were recorded are only checked by dimension.
+ */
+export function assertEmbeddingModel(domain: string, model: EmbeddingModel): void {
+  const stored = openStore(domain).embedding;
+  if (!stored || (stored.provider === model.provider && stored.model === model.model)) return;
+  throw new EmbeddingMismatchError(
+    `Domain "${domain}" was embedded with ${describeModel(stored)} (${stored.dim} dimensions), but the configured embedding model is ${describeModel(model)}. Restore the previous EMBEDDING_PROVIDER / EMBEDDING_MODEL, or run ragchat_reembed to re-embed the domain.`,
+  );
 }
 
-/** Add a document with its embedding */
+/** The model a domain's vectors were embedded with, if recorded */
+export function storedEmbeddingModel(domain: string): EmbeddingInfo | null {
+  return openStore(domain).embedding;
+}
+
+/** Add a document with its embedding from `model` */
 export function addDocument(
   domain: string,
   doc: VectorDocument,
+  model?: EmbeddingModel,
 ): void {
+  if (model) assertEmbeddingModel(domain, model);
   const docs = loadVectors(domain);
   // Replace if same ID exists
   const idx = docs.findIndex((d) => d.id === doc.id);
   if (idx >= 0) docs[idx] = doc;
   else docs.push(doc);
-  saveVectors(domain, docs);
-}
-
-/** Cosine similarity between two vectors */
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) return 0;
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
+  saveVectors(domain, docs, model);
+}
+
+/** Get one document by id */
+export function getDocument(
+  domain: string,
+  id: string,
+): VectorDocument | null {
+  const store = openStore(domain);
+  const row = store.docs.findIndex((d) => d.id === id);
+  return row >= 0 ? { ...store.docs[row], embedding: embeddingAt(store, row) } : null;
+}
+
+/** Delete documents by id. Returns the ids that existed. */
+export function deleteDocuments(domain: string, ids: string[]): string[] {
+  const wanted = new Set(ids);
+  const docs = loadVectors(domain);
+  const removed = docs.filter((d) => wanted.has(d.id)).map((d) => d.id);
+  if (removed.length > 0) {
+    saveVectors(domain, docs.filter((d) => !wanted.has(d.id)));
   }
-  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
-  return denominator === 0 ? 0 : dotProduct / denominator;
+  return removed;
 }
 
-/** Search documents by embedding similarity */
+function toResult(doc: StoredDocument, score: number): SearchResult {
+  return {
+    id: doc.id,
+    title: doc.title,
+    content: doc.content,
+    source: doc.source,
+    url: doc.url,
+    score,
+  };
+}
+
+/**
+ * Search documents by embedding similarity. Large domains go through the
+ * ANN index unless `exact` is set.
+ */
 export function searchByEmbedding(
   domain: string,
   queryEmbedding: number[],
   limit = 3,
   minScore = 0.3,
+  { exact = false }: { exact?: boolean } = {},
 ): SearchResult[] {
-  const docs = loadVectors(domain);
-  if (docs.length === 0) return [];
-
-  const scored = docs
-    .map((doc) => ({
-      id: doc.id,
-      title: doc.title,
-      content: doc.content,
-      score: cosineSimilarity(queryEmbedding, doc.embedding),
-    }))
-    .filter((r) => r.score >= minScore)
+  const store = openStore(domain);
+  if (store.docs.length === 0) return [];
+  if (queryEmbedding.length !== store.matrix.dim) {
+    throw new EmbeddingMismatchError(
+      `Query embedding has ${queryEmbedding.length} dimensions, but "${domain}" stores ${store.matrix.dim}-dimensional vectors${store.embedding ? ` from ${describeModel(store.embedding)}` : ""}. Restore the previous embedding model, or run ragchat_reembed to re-embed the domain.`,
+    );
+  }
+
+  const query = unitVector(queryEmbedding);
+  const settings = vectorSettings(domain);
+  const hits: ScoredRow[] =
+    !exact && annWanted(settings, store.docs.length)
+      ? searchHnsw(store.matrix, annIndex(domain, store), query, limit, settings.efSearch).filter(
+          (h) => h.score >= minScore,
+        )
+      : exactSearch(store.matrix, query, limit, minScore);
+  return hits.map((h) => ({ ...toResult(store.docs[h.row], h.score), similarity: h.score }));
+}
+
+/** Search documents by BM25 keyword relevance */
+export function searchByKeyword(
+  domain: string,
+  query: string,
+  limit = 3,
+): SearchResult[] {
+  const store = openStore(domain);
+  if (store.docs.length === 0) return [];
+
+  const byId = new Map(store.docs.map((d) => [d.id, d]));
+  return searchLexicalIndex(lexicalIndex(domain, store), query, limit)
+    .filter((r) => byId.has(r.id))
+    .map((r) => toResult(byId.get(r.id)!, r.score));
+}
+
+/**
+ * Hybrid search: fuse vector and keyword rankings with reciprocal rank
+ * fusion. Scores are normalized so a document ranked first by both is 1.0.
+ * Documents the vector search found (above minScore) keep their similarity.
+ */
+export function searchHybrid(
+  domain: string,
+  query: string,
+  queryEmbedding: number[],
+  limit = 3,
+  minScore = 0.3,
+): SearchResult[] {
+  const candidates = Math.max(limit * 4, 20);
+  const vector = searchByEmbedding(domain, queryEmbedding, candidates, minScore);
+  const keyword = searchByKeyword(domain, query, candidates);
+
+  const fused = new Map<string, SearchResult>();
+  for (const list of [vector, keyword]) {
+    list.forEach((r, rank) => {
+      const entry = fused.get(r.id) || { ...r, score: 0 };
+      entry.score += 1 / (RRF_K + rank + 1);
+      fused.set(r.id, entry);
+    });
+  }
+
+  const maxScore = 2 / (RRF_K + 1);
+  return [...fused.values()]
+    .map((r) => ({ ...r, score: r.score / maxScore }))
     .sort((a, b) => b.score - a.score)
     .slice(0, limit);
+}
+
+/** Storage format, size and search method of a domain's vectors */
+export function vectorIndexInfo(domain: string): VectorIndexInfo {
+  const store = openStore(domain);
+  const size = (file: string) => (fs.existsSync(file) ? fs.statSync(file).size : 0);
+  const hnsw = annWanted(vectorSettings(domain), store.docs.length);
+  if (hnsw) annIndex(domain, store);
+  return {
+    documents: store.docs.length,
+    dim: store.matrix.dim,
+    embedding: store.embedding,
+    format: store.format,
+    vectorBytes: size(vectorsPath(domain)),
+    search: hnsw ? "hnsw" : "exact",
+    annBytes: hnsw ? size(annPath(domain)) : 0,
+  };
+}
+
+/** Rewrite a domain's vectors in its current storage format and rebuild its indexes */
+export function rebuildVectorIndex(domain: string): void {
+  saveVectors(domain, loadVectors(domain));
+}
+
+/**
+ * Measure ANN recall@k against exact search, using stored documents as
+ * queries. Builds the ANN index if the domain doesn't use one yet.
+ */
+export function measureAnnRecall(domain: string, samples = 50, k = 10): AnnRecall {
+  const store = openStore(domain);
+  const count = store.docs.length;
+  if (count === 0) throw new Error(`Domain "${domain}" has no documents`);
+
+  const index = annIndex(domain, store);
+  const { efSearch } = vectorSettings(domain);
+  const n = Math.min(samples, count);
+  let found = 0;
+  let expected = 0;
+  let exactMs = 0;
+  let annMs = 0;
+
+  for (let i = 0; i < n; i++) {
+    const row = Math.floor((i * count) / n);
+    const query = unitVector(store.matrix.data.subarray(row * store.matrix.dim, (row + 1) * store.matrix.dim));
+
+    let start = performance.now();
+    const exact = exactSearch(store.matrix, query, k, -1);
+    exactMs += performance.now() - start;
 
-  return scored;
+    start = performance.now();
+    const approx = new Set(searchHnsw(store.matrix, index, query, k, efSearch).map((h) => h.row));
+    annMs += performance.now() - start;
+
+    expected += exact.length;
+    found += exact.filter((h) => approx.has(h.row)).length;
+  }
+
+  return {
+    samples: n,
+    k,
+    recall: expected > 0 ? found / expected : 1,
+    exactMs: exactMs / n,
+    annMs: annMs / n,
+  };
 }
 
-/** Save domain config (system prompt, LLM settings) */
+/** Validate and save domain config (system prompt, LLM and retrieval settings) */
 export function saveDomainConfig(
   domain: string,
-  config: Record<string, any>,
-): void {
-  fs.writeFileSync(configPath(domain), JSON.stringify(config, null, 2));
+  config: DomainConfigInput,
+): DomainConfig {
+  const parsed = parseDomainConfig(config, domain);
+  fs.writeFileSync(configPath(domain), JSON.stringify(parsed, null, 2));
+  return parsed;
 }
 
-/** Load domain config */
+/** Load domain config with defaults applied. Throws if the file is invalid. */
 export function loadDomainConfig(
   domain: string,
-): Record<string, any> | null {
+): DomainConfig | null {
   const p = configPath(domain);
   if (!fs.existsSync(p)) return null;
-  return JSON.parse(fs.readFileSync(p, "utf-8"));
+  return parseDomainConfig(JSON.parse(fs.readFileSync(p, "utf-8")), domain);
 }
 
 /** List all configured domains */
@@ -125,28 +628,35 @@ export function listDomains(): Array<{
   domain: string;
   documentCount: number;
   createdAt: string | null;
+  /** Why the domain's config or store can't be loaded; listed anyway so one bad domain doesn't hide the rest */
+  error?: string;
 }> {
-  if (!fs.existsSync(BASE_DIR)) return [];
+  const base = domainsDir();
+  if (!fs.existsSync(base)) return [];
   return fs
-    .readdirSync(BASE_DIR)
+    .readdirSync(base)
     .filter((d) => {
-      const full = path.join(BASE_DIR, d);
+      const full = path.join(base, d);
       return fs.statSync(full).isDirectory();
     })
     .map((d) => {
-      const config = loadDomainConfig(d);
-      const docs = loadVectors(d);
-      return {
-        domain: config?.domain || d,
-        documentCount: docs.length,
-        createdAt: config?.createdAt || null,
-      };
+      try {
+        const config = loadDomainConfig(d);
+        return {
+          domain: config?.domain || d,
+          documentCount: openStore(d).docs.length,
+          createdAt: config?.createdAt || null,
+        };
+      } catch (err: any) {
+        return { domain: d, documentCount: 0, createdAt: null, error: err.message };
+      }
     });
 }
 
 /** Delete a domain and all its data */
 export function deleteDomain(domain: string): void {
   const dir = domainDir(domain);
+  stores.delete(dir);
   if (fs.existsSync(dir)) {
     fs.rmSync(dir, { recursive: true });
   }
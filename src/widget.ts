@@ -1,89 +1,695 @@
 /**
- * Chat widget HTML generator.
+ * Embeddable chat widget.
  *
- * Generates a self-contained <script> tag that creates
- * a floating chat bubble + window on any webpage.
+ * The chat server serves GET /widget.js, which defines a <ragchat-widget>
+ * custom element. An embed is one script tag plus the element:
+ *
+ *   <script src="https://chat.example.com/widget.js" async></script>
+ *   <ragchat-widget domain="mysite.com" key="pk_..."></ragchat-widget>
+ *
+ * The element renders into a Shadow DOM, so host page CSS can't clash with
+ * it, and loads its look and text from GET /d/{domain}/widget, built from
+ * the domain config's `widget` settings; changing them needs no re-paste.
+ * The script is the same for every domain and served with an ETag.
+ *
+ * Replies are streamed over SSE and rendered as tokens arrive.
+ * The conversation lives on the server; the widget keeps only the
+ * session id (in localStorage) and restores the transcript on load.
+ * Each reply gets thumbs up/down buttons and an optional comment.
+ * When the server gives its fallback answer and the domain has a handoff
+ * webhook, the widget asks for the visitor's email (POST /handoff).
+ * Access errors (401/403/429) are shown as friendly messages.
+ * Citation markers like [1] link to footnotes listed under the reply.
+ *
+ * Replies are rendered as a small markdown subset (paragraphs, headings,
+ * lists, code, bold/italic, links) by building DOM nodes, never innerHTML,
+ * so model output can't inject markup; links must be http(s) or mailto.
+ * Colors come from CSS variables with light, dark and auto (follows the
+ * visitor's OS) themes, and every piece of UI text can be replaced.
  */
 
-export function generateWidget(
-  chatUrl: string,
-  options: {
-    domain?: string;
-    title?: string;
-    accentColor?: string;
-    position?: "right" | "left";
-  } = {},
+import { createHash } from "crypto";
+import type { DomainConfig, WidgetSettings } from "./config";
+
+export type WidgetTheme = "light" | "dark" | "auto";
+
+/** UI text shown by the widget. `{seconds}` in retryIn is replaced. */
+export const DEFAULT_WIDGET_STRINGS = {
+  open: "Open chat",
+  close: "Close chat",
+  placeholder: "Ask anything...",
+  send: "Send",
+  typing: "Assistant is typing",
+  suggestions: "Suggested questions",
+  error: "Sorry, something went wrong.",
+  unavailable: "Chat is not available on this site.",
+  rateLimited: "Too many messages.",
+  retryIn: "try again in {seconds}s",
+  helpful: "Helpful",
+  notHelpful: "Not helpful",
+  comment: "Add a comment (optional)",
+  thanks: "Thanks for the feedback!",
+  handoffEmail: "Your email",
+  handoffSend: "Contact me",
+  handoffThanks: "Thanks! We'll get back to you by email.",
+};
+
+export type WidgetStrings = typeof DEFAULT_WIDGET_STRINGS;
+
+const PALETTES: Record<"light" | "dark", Record<string, string>> = {
+  dark: {
+    "--rc-bg": "#1a1a1e",
+    "--rc-surface": "#2a2a2e",
+    "--rc-border": "#2a2a2e",
+    "--rc-text": "#e0e0e0",
+    "--rc-muted": "#888",
+    "--rc-input-bg": "#0a0a0c",
+    "--rc-code-bg": "#0a0a0c",
+    "--rc-shadow": "0 8px 32px rgba(0,0,0,0.5)",
+  },
+  light: {
+    "--rc-bg": "#ffffff",
+    "--rc-surface": "#f4f4f5",
+    "--rc-border": "#e4e4e7",
+    "--rc-text": "#18181b",
+    "--rc-muted": "#71717a",
+    "--rc-input-bg": "#ffffff",
+    "--rc-code-bg": "#e4e4e7",
+    "--rc-shadow": "0 8px 32px rgba(0,0,0,0.15)",
+  },
+};
+
+const BASE_CSS = `
+:host{all:initial}
+.rc-root{font-family:var(--rc-font);font-size:14px;line-height:1.45}
+.rc-root *{box-sizing:border-box}
+.rc-launcher{position:fixed;bottom:24px;width:56px;height:56px;border-radius:50%;border:none;background:var(--rc-accent);color:var(--rc-accent-text);display:flex;align-items:center;justify-content:center;cursor:pointer;font-size:24px;box-shadow:0 4px 12px rgba(0,0,0,0.3);z-index:9999;transition:transform 0.2s}
+.rc-launcher:hover{transform:scale(1.1)}
+.rc-window{position:fixed;bottom:90px;width:380px;max-width:calc(100vw - 32px);max-height:min(500px,calc(100vh - 110px));background:var(--rc-bg);color:var(--rc-text);border:1px solid var(--rc-border);border-radius:16px;box-shadow:var(--rc-shadow);z-index:9999;overflow:hidden;display:flex;flex-direction:column}
+.rc-window[hidden]{display:none}
+.rc-right .rc-launcher,.rc-right .rc-window{right:24px}
+.rc-left .rc-launcher,.rc-left .rc-window{left:24px}
+.rc-header{padding:16px;border-bottom:1px solid var(--rc-border);display:flex;justify-content:space-between;align-items:center}
+.rc-title{margin:0;font-size:15px;font-weight:600;color:var(--rc-text)}
+.rc-close{background:none;border:none;color:var(--rc-muted);cursor:pointer;font-size:18px;padding:2px 6px;border-radius:6px}
+.rc-msgs{flex:1;overflow-y:auto;padding:16px;min-height:300px}
+.rc-msg{margin-bottom:12px;padding:10px 14px;border-radius:12px;max-width:85%;overflow-wrap:anywhere}
+.rc-user{margin-left:auto;background:var(--rc-accent);color:var(--rc-accent-text);white-space:pre-wrap}
+.rc-assistant{background:var(--rc-surface);color:var(--rc-text)}
+.rc-assistant p,.rc-assistant ul,.rc-assistant ol,.rc-assistant pre{margin:0 0 8px}
+.rc-assistant>:last-child{margin-bottom:0}
+.rc-assistant ul,.rc-assistant ol{padding-left:20px}
+.rc-assistant .rc-h{font-weight:600}
+.rc-assistant code{font-family:ui-monospace,SFMono-Regular,Menlo,monospace;font-size:12px;background:var(--rc-code-bg);padding:1px 4px;border-radius:4px}
+.rc-assistant pre{background:var(--rc-code-bg);padding:8px 10px;border-radius:8px;overflow-x:auto}
+.rc-assistant pre code{background:none;padding:0}
+.rc-assistant a{color:var(--rc-link)}
+.rc-assistant sup a,.rc-notes a{text-decoration:none}
+.rc-notes{margin-top:8px;padding-top:6px;border-top:1px solid var(--rc-border);font-size:12px}
+.rc-typing{display:inline-flex;gap:4px;padding:4px 0}
+.rc-typing span{width:6px;height:6px;border-radius:50%;background:var(--rc-muted);animation:rc-blink 1.2s infinite both}
+.rc-typing span:nth-child(2){animation-delay:0.2s}
+.rc-typing span:nth-child(3){animation-delay:0.4s}
+@keyframes rc-blink{0%,80%,100%{opacity:0.25}40%{opacity:1}}
+.rc-starters{display:flex;flex-wrap:wrap;gap:6px;margin-bottom:12px}
+.rc-starter{background:none;border:1px solid var(--rc-accent);color:var(--rc-text);border-radius:16px;padding:6px 12px;cursor:pointer;font:inherit;font-size:13px;text-align:left}
+.rc-feedback{margin:-8px 0 12px;display:flex;gap:4px;align-items:center;font-size:12px;color:var(--rc-muted)}
+.rc-thumb{background:none;border:none;cursor:pointer;font-size:14px;padding:2px;opacity:0.5;border-radius:4px}
+.rc-thumb[aria-pressed="true"]{opacity:1}
+.rc-handoff{margin:-4px 0 12px;display:flex;flex-wrap:wrap;gap:6px;align-items:center;font-size:12px;color:var(--rc-muted)}
+.rc-handoff p{margin:0;width:100%}
+.rc-handoff .rc-send{padding:4px 10px;font-size:12px}
+.rc-form{margin:0;padding:12px;border-top:1px solid var(--rc-border);display:flex;gap:8px}
+.rc-input,.rc-comment{flex:1;min-width:0;background:var(--rc-input-bg);border:1px solid var(--rc-border);border-radius:8px;padding:8px 12px;color:var(--rc-text);font:inherit;outline:none}
+.rc-comment{padding:4px 8px;font-size:12px;border-radius:6px}
+.rc-input:focus,.rc-comment:focus{border-color:var(--rc-accent)}
+.rc-send{background:var(--rc-accent);border:none;border-radius:8px;padding:8px 16px;color:var(--rc-accent-text);cursor:pointer;font:inherit;font-weight:600}
+.rc-root button:focus-visible,.rc-root a:focus-visible{outline:2px solid var(--rc-accent);outline-offset:2px}
+@media (prefers-reduced-motion:reduce){.rc-launcher{transition:none}.rc-launcher:hover{transform:none}.rc-typing span{animation:none;opacity:0.6}}
+`;
+
+/** Normalize a CSS variable name ("bg" → "--rc-bg") and reject values that could escape the rule */
+function cssVar(name: string, value: string): [string, string] {
+  const prop = name.startsWith("--") ? name : `--rc-${name}`;
+  if (!/^--[a-zA-Z0-9-]+$/.test(prop)) throw new Error(`Invalid CSS variable name: "${name}"`);
+  if (/[;{}<>\\]|\/\*/.test(value) || !value.trim()) {
+    throw new Error(`Invalid value for CSS variable ${prop}: "${value}"`);
+  }
+  return [prop, value.trim()];
+}
+
+function declarations(vars: Record<string, string>): string {
+  return Object.entries(vars)
+    .map(([prop, value]) => `${prop}:${value}`)
+    .join(";");
+}
+
+/** Stylesheet for a theme, with the accent color and custom variables applied last */
+export function widgetCss(
+  theme: WidgetTheme,
+  accentColor: string,
+  cssVars: Record<string, string> = {},
 ): string {
-  const {
-    title = "Chat with us",
-    accentColor = "#22c55e",
-    position = "right",
-  } = options;
-
-  const posStyle =
-    position === "left"
-      ? "left:24px"
-      : "right:24px";
-
-  const winPosStyle =
-    position === "left"
-      ? "left:24px"
-      : "right:24px";
-
-  return `<script>
-(function() {
-  var API = "${chatUrl}";
-
-  var b = document.createElement("div");
-  b.innerHTML = "\\u{1F4AC}";
-  b.style.cssText = "position:fixed;bottom:24px;${posStyle};width:56px;height:56px;border-radius:50%;background:${accentColor};color:white;display:flex;align-items:center;justify-content:center;cursor:pointer;font-size:24px;box-shadow:0 4px 12px rgba(0,0,0,0.3);z-index:9999;transition:transform 0.2s";
-  b.onmouseenter = function() { b.style.transform = "scale(1.1)"; };
-  b.onmouseleave = function() { b.style.transform = "scale(1)"; };
-
-  var w = document.createElement("div");
-  w.style.cssText = "display:none;position:fixed;bottom:90px;${winPosStyle};width:380px;max-height:500px;background:#1a1a1e;border:1px solid #2a2a2e;border-radius:16px;box-shadow:0 8px 32px rgba(0,0,0,0.5);z-index:9999;overflow:hidden;flex-direction:column";
-  w.innerHTML = '<div style="padding:16px;border-bottom:1px solid #2a2a2e;display:flex;justify-content:space-between;align-items:center"><span style="color:white;font-weight:600">${title}</span><button id="rc-close" style="background:none;border:none;color:#888;cursor:pointer;font-size:18px">\\u2715</button></div><div id="rc-msgs" style="flex:1;overflow-y:auto;padding:16px;min-height:300px"></div><div style="padding:12px;border-top:1px solid #2a2a2e;display:flex;gap:8px"><input id="rc-in" type="text" placeholder="Ask anything..." style="flex:1;background:#0a0a0c;border:1px solid #2a2a2e;border-radius:8px;padding:8px 12px;color:white;outline:none" /><button id="rc-send" style="background:${accentColor};border:none;border-radius:8px;padding:8px 16px;color:white;cursor:pointer;font-weight:600">Send</button></div>';
-
-  document.body.appendChild(b);
-  document.body.appendChild(w);
-
-  var h = [];
-
-  b.onclick = function() { w.style.display = w.style.display === "none" ? "flex" : "none"; };
-  document.getElementById("rc-close").onclick = function() { w.style.display = "none"; };
-
-  function add(role, text) {
-    var m = document.getElementById("rc-msgs");
-    var d = document.createElement("div");
-    d.style.cssText = "margin-bottom:12px;padding:10px 14px;border-radius:12px;max-width:85%;" + (role === "user" ? "margin-left:auto;background:${accentColor};color:white" : "background:#2a2a2e;color:#e0e0e0");
-    d.textContent = text;
-    m.appendChild(d);
-    m.scrollTop = m.scrollHeight;
+  const [, accent] = cssVar("--rc-accent", accentColor);
+  const base = {
+    "--rc-font": "system-ui,-apple-system,'Segoe UI',sans-serif",
+    "--rc-accent-text": "#ffffff",
+    "--rc-link": "var(--rc-accent)",
+    ...PALETTES[theme === "light" ? "light" : "dark"],
+  };
+  const custom = Object.fromEntries([
+    ["--rc-accent", accent],
+    ...Object.entries(cssVars).map(([name, value]) => cssVar(name, value)),
+  ]);
+
+  let css = `.rc-root{${declarations(theme === "auto" ? { ...base, ...PALETTES.light } : base)}}`;
+  if (theme === "auto") {
+    css += `@media (prefers-color-scheme:dark){.rc-root{${declarations(PALETTES.dark)}}}`;
+  }
+  // Doubled class: outranks the theme rules, including the media query
+  css += `.rc-root.rc-root{${declarations(custom)}}`;
+  return css + BASE_CSS;
+}
+
+/** Merge string overrides over the defaults, rejecting unknown keys */
+export function widgetStrings(overrides: Partial<Record<string, string>> = {}): WidgetStrings {
+  const strings = { ...DEFAULT_WIDGET_STRINGS };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (!(key in strings)) {
+      throw new Error(
+        `Unknown widget string "${key}". Known: ${Object.keys(DEFAULT_WIDGET_STRINGS).join(", ")}`,
+      );
+    }
+    if (typeof value === "string") strings[key as keyof WidgetStrings] = value;
+  }
+  return strings;
+}
+
+/** Script served as /widget.js: defines the <ragchat-widget> element */
+const WIDGET_SCRIPT = `(function() {
+  if (!window.customElements || customElements.get("ragchat-widget")) return;
+  // Default server: wherever this script was loaded from
+  var script = document.currentScript;
+  var BASE = script && script.src ? script.src.replace(/\\/widget\\.js(?:[?#].*)?$/, "") : "";
+
+  function el(tag, cls, attrs) {
+    var e = document.createElement(tag);
+    if (cls) e.className = cls;
+    for (var k in attrs || {}) e.setAttribute(k, attrs[k]);
+    return e;
+  }
+
+  // ---- Markdown: a safe subset, built as DOM nodes ----
+
+  function safeUrl(url) {
+    return /^(https?:\\/\\/|mailto:)/i.test(url) ? url : null;
+  }
+
+  function link(c, label) {
+    var a = el("a");
+    a.textContent = label;
+    a.title = c.snippet || "";
+    if (c.url && /^https?:\\/\\//i.test(c.url)) {
+      a.href = c.url;
+      a.target = "_blank";
+      a.rel = "noopener noreferrer";
+    }
+    return a;
+  }
+
+  var INLINE = /(\`[^\`]+\`)|\\*\\*([^*]+)\\*\\*|\\*([^*\\s][^*]*)\\*|\\[([^\\]]+)\\]\\(((?:[^()\\s]|\\([^()\\s]*\\))+)\\)|\\[(\\d+(?:\\s*,\\s*\\d+)*)\\]|(https?:\\/\\/[^\\s<>()]+[^\\s<>().,;:!?'"])/g;
+
+  function inline(parent, text, byN) {
+    var last = 0, m;
+    INLINE.lastIndex = 0;
+    var matches = [];
+    while ((m = INLINE.exec(text))) matches.push(m);
+    for (var k = 0; k < matches.length; k++) {
+      m = matches[k];
+      if (m.index > last) parent.appendChild(document.createTextNode(text.slice(last, m.index)));
+      last = m.index + m[0].length;
+      if (m[1]) {
+        var code = el("code");
+        code.textContent = m[1].slice(1, -1);
+        parent.appendChild(code);
+      } else if (m[2] || m[3]) {
+        var em = el(m[2] ? "strong" : "em");
+        inline(em, m[2] || m[3], byN);
+        parent.appendChild(em);
+      } else if (m[4]) {
+        var href = safeUrl(m[5]);
+        if (!href) { inline(parent, m[4], byN); continue; }
+        var a = el("a", "", { href: href, target: "_blank", rel: "noopener noreferrer" });
+        inline(a, m[4], byN);
+        parent.appendChild(a);
+      } else if (m[6]) {
+        var known = m[6].split(",").map(function(n) { return byN[Number(n)]; }).filter(Boolean);
+        if (!known.length) { parent.appendChild(document.createTextNode(m[0])); continue; }
+        for (var j = 0; j < known.length; j++) {
+          var sup = el("sup");
+          sup.appendChild(link(known[j], "[" + known[j].n + "]"));
+          parent.appendChild(sup);
+        }
+      } else {
+        var url = el("a", "", { href: m[7], target: "_blank", rel: "noopener noreferrer" });
+        url.textContent = m[7];
+        parent.appendChild(url);
+      }
+    }
+    if (last < text.length) parent.appendChild(document.createTextNode(text.slice(last)));
+  }
+
+  function markdown(parent, text, byN) {
+    var lines = text.replace(/\\r\\n?/g, "\\n").split("\\n");
+    var list = null, item = null, para = null;
+    for (var i = 0; i < lines.length; i++) {
+      var line = lines[i];
+      if (/^\\s*\`\`\`/.test(line)) {
+        var code = [];
+        while (++i < lines.length && !/^\\s*\`\`\`/.test(lines[i])) code.push(lines[i]);
+        var pre = el("pre"), c = el("code");
+        c.textContent = code.join("\\n");
+        pre.appendChild(c);
+        parent.appendChild(pre);
+        list = item = para = null;
+        continue;
+      }
+      var h = line.match(/^\\s*#{1,6}\\s+(.*)$/);
+      var li = line.match(/^\\s*(?:[-*+]|(\\d+)[.)])\\s+(.*)$/);
+      if (!line.trim()) {
+        list = item = para = null;
+      } else if (h) {
+        var p = el("p", "rc-h");
+        inline(p, h[1], byN);
+        parent.appendChild(p);
+        list = item = para = null;
+      } else if (li) {
+        var tag = li[1] ? "OL" : "UL";
+        if (!list || list.tagName !== tag) {
+          list = el(tag.toLowerCase());
+          if (li[1] && li[1] !== "1") list.setAttribute("start", li[1]);
+          parent.appendChild(list);
+        }
+        item = el("li");
+        inline(item, li[2], byN);
+        list.appendChild(item);
+        para = null;
+      } else if (item && /^\\s/.test(line)) {
+        item.appendChild(document.createTextNode(" "));
+        inline(item, line.trim(), byN);
+      } else if (para) {
+        para.appendChild(el("br"));
+        inline(para, line, byN);
+      } else {
+        para = el("p");
+        inline(para, line, byN);
+        parent.appendChild(para);
+        list = item = null;
+      }
+    }
+  }
+
+  function render(bubble, text, citations) {
+    var byN = {};
+    for (var k = 0; k < (citations || []).length; k++) byN[citations[k].n] = citations[k];
+    bubble.textContent = "";
+    markdown(bubble, text, byN);
+    if (!citations || !citations.length) return;
+    var notes = el("div", "rc-notes");
+    for (var k = 0; k < citations.length; k++) {
+      var c = citations[k];
+      var row = el("div");
+      row.appendChild(link(c, "[" + c.n + "] " + c.title + (c.url ? "" : c.source ? " (" + c.source + ")" : "")));
+      notes.appendChild(row);
+    }
+    bubble.appendChild(notes);
+  }
+
+  // ---- One widget: settings from GET /d/{domain}/widget ----
+
+  function mount(shadow, CONFIG, API, HEADERS) {
+    var T = CONFIG.strings;
+
+    var style = el("style");
+    style.textContent = CONFIG.css;
+    var root = el("div", "rc-root rc-" + CONFIG.position);
+
+    var b = el("button", "rc-launcher", { type: "button", "aria-label": T.open, "aria-expanded": "false", "aria-controls": "rc-window" });
+    b.textContent = "\\u{1F4AC}";
+
+    var w = el("div", "rc-window", { id: "rc-window", role: "dialog", "aria-labelledby": "rc-title" });
+    w.hidden = true;
+    var header = el("div", "rc-header");
+    var heading = el("h2", "rc-title", { id: "rc-title" });
+    heading.textContent = CONFIG.title;
+    var close = el("button", "rc-close", { type: "button", "aria-label": T.close });
+    close.textContent = "\\u2715";
+    header.appendChild(heading);
+    header.appendChild(close);
+    var msgs = el("div", "rc-msgs", { role: "log", "aria-live": "polite", "aria-label": CONFIG.title });
+    var form = el("form", "rc-form");
+    var input = el("input", "rc-input", { type: "text", placeholder: T.placeholder, "aria-label": T.placeholder, autocomplete: "off" });
+    var sendBtn = el("button", "rc-send", { type: "submit" });
+    sendBtn.textContent = T.send;
+    form.appendChild(input);
+    form.appendChild(sendBtn);
+    w.appendChild(header);
+    w.appendChild(msgs);
+    w.appendChild(form);
+
+    root.appendChild(b);
+    root.appendChild(w);
+    shadow.appendChild(style);
+    shadow.appendChild(root);
+
+    var KEY = "ragchat:" + API;
+    var sid = null;
+    try { sid = localStorage.getItem(KEY); } catch(e) {}
+
+    function setSession(id) {
+      if (!id || id === sid) return;
+      sid = id;
+      try { localStorage.setItem(KEY, id); } catch(e) {}
+    }
+
+    // Open state lasts for the browser tab, so the window stays open across page loads
+    function toggle(open, focus) {
+      w.hidden = !open;
+      b.setAttribute("aria-expanded", open ? "true" : "false");
+      try { sessionStorage.setItem(KEY + ":open", open ? "1" : ""); } catch(e) {}
+      if (!open) return;
+      msgs.scrollTop = msgs.scrollHeight;
+      if (focus) input.focus();
+    }
+
+    b.onclick = function() { toggle(w.hidden, true); };
+    close.onclick = function() { toggle(false); b.focus(); };
+    w.onkeydown = function(e) {
+      if (e.key === "Escape") { toggle(false); b.focus(); }
+    };
+
+    function add(role, text, citations) {
+      var d = el("div", "rc-msg rc-" + role);
+      if (role === "user") d.textContent = text;
+      else render(d, text, citations);
+      msgs.appendChild(d);
+      msgs.scrollTop = msgs.scrollHeight;
+      return d;
+    }
+
+    function typing(bubble) {
+      bubble.textContent = "";
+      var dots = el("span", "rc-typing", { role: "status", "aria-label": T.typing });
+      for (var k = 0; k < 3; k++) dots.appendChild(el("span", "", { "aria-hidden": "true" }));
+      bubble.appendChild(dots);
+    }
+
+    var starters = null;
+
+    function welcome() {
+      if (msgs.childNodes.length) return;
+      if (CONFIG.greeting) add("assistant", CONFIG.greeting);
+      if (!CONFIG.starters.length) return;
+      starters = el("div", "rc-starters", { role: "group", "aria-label": T.suggestions });
+      for (var k = 0; k < CONFIG.starters.length; k++) {
+        (function(q) {
+          var s = el("button", "rc-starter", { type: "button" });
+          s.textContent = q;
+          s.onclick = function() { send(q); };
+          starters.appendChild(s);
+        })(CONFIG.starters[k]);
+      }
+      msgs.appendChild(starters);
+    }
+
+    function feedback(bubble, id) {
+      var row = el("div", "rc-feedback");
+      var rating = null, note = null;
+      function post(comment) {
+        fetch(API + "/feedback", {
+          method: "POST",
+          headers: HEADERS,
+          body: JSON.stringify({ sessionId: sid, messageId: id, rating: rating, comment: comment })
+        }).catch(function() {});
+      }
+      function thumb(label, value, hint) {
+        var t = el("button", "rc-thumb", { type: "button", title: hint, "aria-label": hint, "aria-pressed": "false" });
+        t.textContent = label;
+        t.onclick = function() {
+          rating = value;
+          up.setAttribute("aria-pressed", value === "up" ? "true" : "false");
+          down.setAttribute("aria-pressed", value === "down" ? "true" : "false");
+          post();
+          if (note) return;
+          note = el("input", "rc-comment", { type: "text", placeholder: T.comment, "aria-label": T.comment });
+          note.onkeydown = function(e) {
+            if (e.key !== "Enter" || !note.value.trim()) return;
+            post(note.value.trim());
+            var thanks = el("span", "", { role: "status" });
+            thanks.textContent = T.thanks;
+            row.replaceChild(thanks, note);
+          };
+          row.appendChild(note);
+          note.focus();
+        };
+        return t;
+      }
+      var up = thumb("\\u{1F44D}", "up", T.helpful);
+      var down = thumb("\\u{1F44E}", "down", T.notHelpful);
+      row.appendChild(up);
+      row.appendChild(down);
+      bubble.parentNode.insertBefore(row, bubble.nextSibling);
+    }
+
+    // After a fallback answer: collect an email for a human follow-up
+    function handoff() {
+      if (!CONFIG.handoff) return;
+      var box = el("form", "rc-handoff");
+      var prompt = el("p");
+      prompt.textContent = CONFIG.handoff;
+      var email = el("input", "rc-comment", { type: "email", required: "", placeholder: T.handoffEmail, "aria-label": T.handoffEmail, autocomplete: "email" });
+      var submit = el("button", "rc-send", { type: "submit" });
+      submit.textContent = T.handoffSend;
+      var status = el("span", "", { role: "status" });
+      box.appendChild(prompt);
+      box.appendChild(email);
+      box.appendChild(submit);
+      box.appendChild(status);
+      box.onsubmit = function(e) {
+        e.preventDefault();
+        var value = email.value.trim();
+        if (!value) return;
+        submit.disabled = true;
+        status.textContent = "";
+        fetch(API + "/handoff", {
+          method: "POST",
+          headers: HEADERS,
+          body: JSON.stringify({ sessionId: sid, email: value })
+        }).then(function(r) {
+          // 409: already handed off, e.g. from another tab
+          if (!r.ok && r.status !== 409) throw new Error("HTTP " + r.status);
+          var thanks = el("p", "rc-handoff", { role: "status" });
+          thanks.textContent = T.handoffThanks;
+          box.parentNode.replaceChild(thanks, box);
+        }).catch(function() {
+          submit.disabled = false;
+          status.textContent = T.error;
+        });
+      };
+      msgs.appendChild(box);
+      msgs.scrollTop = msgs.scrollHeight;
+    }
+
+    if (sid) {
+      fetch(API + "/sessions/" + encodeURIComponent(sid), { headers: HEADERS }).then(function(r) {
+        if (!r.ok) {
+          sid = null;
+          try { localStorage.removeItem(KEY); } catch(e) {}
+          return;
+        }
+        return r.json().then(function(d) {
+          for (var k = 0; k < d.messages.length; k++) {
+            var m = add(d.messages[k].role, d.messages[k].text, d.messages[k].citations);
+            if (d.messages[k].id) feedback(m, d.messages[k].id);
+          }
+        });
+      }).catch(function() {}).then(welcome);
+    } else {
+      welcome();
+    }
+    try { if (sessionStorage.getItem(KEY + ":open")) toggle(true); } catch(e) {}
+
+    async function readStream(r, bubble) {
+      var reader = r.body.getReader();
+      var decoder = new TextDecoder();
+      var buf = "";
+      var reply = "";
+      // Tokens arrive faster than the screen refreshes: redraw at most once a frame
+      var frame = 0;
+      function paint() {
+        frame = 0;
+        render(bubble, reply);
+        msgs.scrollTop = msgs.scrollHeight;
+      }
+      try {
+        while (true) {
+          var chunk = await reader.read();
+          if (chunk.done) break;
+          buf += decoder.decode(chunk.value, { stream: true });
+          var parts = buf.split("\\n\\n");
+          buf = parts.pop();
+          for (var k = 0; k < parts.length; k++) {
+            var ev = "message", data = "";
+            var lines = parts[k].split("\\n");
+            for (var j = 0; j < lines.length; j++) {
+              if (lines[j].indexOf("event:") === 0) ev = lines[j].slice(6).trim();
+              else if (lines[j].indexOf("data:") === 0) data += lines[j].slice(5).trim();
+            }
+            if (!data) continue;
+            var p;
+            try { p = JSON.parse(data); } catch(e) { continue; } // skip a garbled frame, keep the reply
+            if (ev === "token") {
+              reply += p.text;
+              if (!frame) frame = requestAnimationFrame(paint);
+            } else if (ev === "session") {
+              setSession(p.sessionId);
+            } else if (ev === "done") {
+              if (frame) { cancelAnimationFrame(frame); frame = 0; }
+              setSession(p.sessionId);
+              render(bubble, reply, p.citations);
+              if (p.messageId) feedback(bubble, p.messageId);
+              if (p.handoff) handoff();
+            } else if (ev === "error") {
+              throw new Error(p.error);
+            }
+          }
+        }
+        if (frame) { cancelAnimationFrame(frame); paint(); }
+      } finally {
+        // An error reply must not be painted over by a pending frame
+        if (frame) cancelAnimationFrame(frame);
+      }
+      return reply;
+    }
+
+    async function failure(r) {
+      var d = {};
+      try { d = await r.json(); } catch(e) {}
+      if (r.status === 429) {
+        var wait = Number(r.headers.get("Retry-After") || d.retryAfter || 0);
+        return T.rateLimited + (wait > 0 && wait < 120 ? " (" + T.retryIn.replace("{seconds}", wait) + ")" : "");
+      }
+      if (r.status === 401 || r.status === 403) return T.unavailable;
+      return T.error;
+    }
+
+    async function send(text) {
+      var msg = (text || input.value).trim();
+      if (!msg) return;
+      input.value = "";
+      if (starters) { starters.remove(); starters = null; }
+      add("user", msg);
+      var bubble = add("assistant", "");
+      typing(bubble);
+      bubble.setAttribute("aria-busy", "true");
+      try {
+        var streaming = !!(window.ReadableStream && window.TextDecoder);
+        var r = await fetch(API + "/chat", {
+          method: "POST",
+          headers: HEADERS,
+          body: JSON.stringify({ message: msg, sessionId: sid, stream: streaming })
+        });
+        if (!r.ok) {
+          bubble.textContent = await failure(r);
+          return;
+        }
+        if (streaming && r.body && (r.headers.get("Content-Type") || "").indexOf("text/event-stream") === 0) {
+          await readStream(r, bubble);
+        } else {
+          var d = await r.json();
+          setSession(d.sessionId);
+          render(bubble, d.reply, d.citations);
+          if (d.messageId) feedback(bubble, d.messageId);
+          if (d.handoff) handoff();
+        }
+      } catch(e) {
+        bubble.textContent = T.error;
+      } finally {
+        bubble.removeAttribute("aria-busy");
+      }
+    }
+
+    form.onsubmit = function(e) { e.preventDefault(); send(); };
   }
 
-  async function send() {
-    var i = document.getElementById("rc-in");
-    var msg = i.value.trim();
-    if (!msg) return;
-    i.value = "";
-    add("user", msg);
-    h.push({ role: "user", text: msg });
-    try {
-      var r = await fetch(API + "/chat", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message: msg, history: h })
+  class RagChatWidget extends HTMLElement {
+    connectedCallback() {
+      if (this.shadowRoot) return;
+      var domain = this.getAttribute("domain");
+      var server = (this.getAttribute("server") || BASE).replace(/\\/+$/, "");
+      if (!domain || !server) {
+        console.warn("ragchat-widget: the domain attribute is required (and server, when the script is inlined)");
+        return;
+      }
+      var api = server + "/d/" + encodeURIComponent(domain);
+      var key = this.getAttribute("key");
+      var headers = { "Content-Type": "application/json" };
+      if (key) headers["X-RagChat-Key"] = key;
+      var shadow = this.attachShadow({ mode: "open" });
+      fetch(api + "/widget", { headers: key ? { "X-RagChat-Key": key } : {} }).then(function(r) {
+        if (!r.ok) throw new Error("HTTP " + r.status);
+        return r.json();
+      }).then(function(config) {
+        mount(shadow, config, api, headers);
+      }).catch(function(e) {
+        console.warn("ragchat-widget: could not load settings for " + domain + ": " + e.message);
       });
-      var d = await r.json();
-      add("assistant", d.reply);
-      h.push({ role: "assistant", text: d.reply });
-    } catch(e) {
-      add("assistant", "Sorry, something went wrong.");
     }
   }
 
-  document.getElementById("rc-send").onclick = send;
-  document.getElementById("rc-in").onkeydown = function(e) { if (e.key === "Enter") send(); };
+  customElements.define("ragchat-widget", RagChatWidget);
 })();
-</script>`;
+`;
+
+/** Version of the served script: changes whenever its code does */
+export const WIDGET_VERSION = createHash("sha256").update(WIDGET_SCRIPT).digest("hex").slice(0, 12);
+
+/** Body of GET /widget.js */
+export function widgetScript(): string {
+  return `/* mcp-ragchat widget ${WIDGET_VERSION} */\n${WIDGET_SCRIPT}`;
+}
+
+/** What a widget loads from GET /d/{domain}/widget */
+export function widgetClientConfig(config: DomainConfig) {
+  const widget: WidgetSettings = config.widget;
+  return {
+    title: widget.title,
+    position: widget.position,
+    greeting: widget.greeting || "",
+    starters: widget.starters,
+    strings: widgetStrings(widget.strings),
+    css: widgetCss(widget.theme, widget.color, widget.cssVars),
+    /** Prompt above the handoff email field; empty when handoff is off */
+    handoff: config.fallback.handoff.webhookUrl ? config.fallback.handoff.prompt : "",
+  };
+}
+
+function escapeAttr(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/** HTML to paste into a page: the script tag and the element */
+export function widgetEmbed(
+  serverUrl: string,
+  domain: string,
+  { publishableKey }: { publishableKey?: string } = {},
+): string {
+  const base = serverUrl.replace(/\/+$/, "");
+  const attrs = [`domain="${escapeAttr(domain)}"`];
+  if (publishableKey) attrs.push(`key="${escapeAttr(publishableKey)}"`);
+  return `<script src="${escapeAttr(`${base}/widget.js`)}" async></script>\n<ragchat-widget ${attrs.join(" ")}></ragchat-widget>`;
 }
@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type * as http from "http";
+import { authorize, consumeRateLimit, generateKey } from "../src/access";
+import { parseDomainConfig } from "../src/config";
+
+const config = (extra: Record<string, unknown> = {}) =>
+  parseDomainConfig({ domain: "d", systemPrompt: "s", createdAt: "", ...extra }, "d");
+
+const request = (headers: Record<string, string>) => ({ headers, socket: {} }) as unknown as http.IncomingMessage;
+
+/** HTTP status of a denial, or null when access was granted */
+const denial = (grant: ReturnType<typeof authorize>) => ("status" in grant ? grant.status : null);
+
+test("any origin is allowed without restrictions", () => {
+  assert.deepEqual(authorize(config(), request({ origin: "https://a.com" })), { trusted: false });
+});
+
+test("allowed origins support wildcard subdomains", () => {
+  const c = config({ allowedOrigins: ["*.mysite.com"] });
+  assert.deepEqual(authorize(c, request({ origin: "https://www.mysite.com" })), { trusted: false });
+  assert.equal(denial(authorize(c, request({ origin: "https://evil.com" }))), 403);
+});
+
+test("publishable and secret keys", () => {
+  const pk = generateKey("publishable");
+  const sk = generateKey("secret");
+  const c = config({ publishableKeys: [pk], secretKeys: [sk] });
+  assert.equal(denial(authorize(c, request({}))), 401);
+  assert.deepEqual(authorize(c, request({ "x-ragchat-key": pk })), { trusted: false });
+  assert.deepEqual(authorize(c, request({ authorization: `Bearer ${sk}` })), { trusted: true });
+  assert.equal(denial(authorize(c, request({ authorization: "Bearer sk_wrong" }))), 401);
+});
+
+test("rate limit allows a burst, then asks to retry", () => {
+  const c = config({ rateLimit: { ipBurst: 2, ipPerMinute: 1 } });
+  const client = { ip: "10.0.0.1", trusted: false };
+  assert.equal(consumeRateLimit("burst", c, client), null);
+  assert.equal(consumeRateLimit("burst", c, client), null);
+  const denied = consumeRateLimit("burst", c, client);
+  assert.equal(denied?.status, 429);
+  assert.ok(denied!.retryAfter! > 0);
+  assert.equal(consumeRateLimit("burst", c, { ...client, trusted: true }), null);
+});
@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { exportBundle, importBundle, readBundle } from "../src/bundle";
+import { loadDomainConfig, loadVectors } from "../src/vector-store";
+import { createDomain, useTempDataDir } from "./helpers";
+
+useTempDataDir();
+
+test("bundles round-trip documents and embeddings", () => {
+  createDomain(
+    "src.test",
+    [
+      { title: "A", content: "alpha", embedding: [0.5, -0.25, 1] },
+      { title: "B", content: "beta", embedding: [0, 1, 0.125] },
+    ],
+    { secretKeys: ["sk_secret"] },
+  );
+  const bundle = readBundle(exportBundle("src.test"));
+  assert.equal(bundle.config.secretKeys, undefined);
+
+  const report = importBundle(bundle, { as: "copy.test" });
+  assert.equal(report.action, "created");
+  assert.equal(report.added, 2);
+  const docs = loadVectors("copy.test");
+  assert.deepEqual(
+    docs.map((d) => [d.id, d.embedding]),
+    [
+      ["copy.test-0", [0.5, -0.25, 1]],
+      ["copy.test-1", [0, 1, 0.125]],
+    ],
+  );
+  assert.ok(loadDomainConfig("copy.test"));
+});
+
+test("importing over an existing domain needs a mode", () => {
+  const bundle = readBundle(exportBundle("src.test"));
+  assert.throws(() => importBundle(bundle, { as: "copy.test" }), /already exists/);
+  assert.equal(importBundle(bundle, { as: "copy.test", mode: "merge" }).updated, 2);
+});
+
+test("corrupt bundles are rejected", () => {
+  assert.throws(() => readBundle(Buffer.from("{}")), /Not an mcp-ragchat bundle/);
+  assert.throws(() => readBundle(Buffer.from("not json")), /Not a valid bundle/);
+});
@@ -0,0 +1,102 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { shutdownChatServer, startChatServer } from "../src/chat-server";
+import { completionChunk, createDomain, parseEvents, useLLMServer, useTempDataDir } from "./helpers";
+
+const dataDir = useTempDataDir();
+
+let llm: Awaited<ReturnType<typeof useLLMServer>>;
+/** Resolves when the model's side of a "hang" request is closed */
+let upstreamClosed: Promise<void>;
+before(async () => {
+  llm = await useLLMServer((body, _req, res) => {
+    res.writeHead(200, { "Content-Type": "text/event-stream" });
+    if (body.messages.at(-1).content === "hang") {
+      // One token, then keep generating until the caller goes away
+      res.write(completionChunk("Still "));
+      upstreamClosed = new Promise((resolve) => res.on("close", resolve));
+      return;
+    }
+    for (const text of ["Plans start ", "at $10."]) res.write(completionChunk(text));
+    res.end("data: [DONE]\n\n");
+  });
+});
+after(async () => {
+  await shutdownChatServer(1000);
+  await llm.close();
+});
+
+async function serve(domain: string, config: Parameters<typeof createDomain>[2] = {}): Promise<string> {
+  createDomain(domain, [{ title: "Pricing", content: "Plans start at $10.", embedding: [1, 0] }], config);
+  const { port } = await startChatServer(domain, 0, { host: "127.0.0.1", strictPort: true });
+  return `http://127.0.0.1:${port}`;
+}
+
+test("malformed percent-encoding in the path is a 400, not a crash", async () => {
+  const base = await serve("shop.test");
+  const chat = await fetch(`${base}/d/%E0%A4%A/chat`, { method: "POST", body: "{}" });
+  assert.equal(chat.status, 400);
+  const session = await fetch(`${base}/d/shop.test/sessions/%E0%A4%A`);
+  assert.equal(session.status, 400);
+  assert.equal((await fetch(`${base}/`)).status, 200);
+});
+
+test("an invalid config.json fails the request with a 500", async () => {
+  const base = await serve("broken.test");
+  fs.writeFileSync(path.join(dataDir, "domains", "broken.test", "config.json"), JSON.stringify({ domain: "broken.test", temperature: "hot" }));
+  const res = await fetch(`${base}/d/broken.test/chat`, { method: "POST", body: "{}" });
+  assert.equal(res.status, 500);
+  assert.equal((await fetch(`${base}/d/shop.test`)).status, 200);
+});
+
+test("a streamed reply is session, tokens, then done", async () => {
+  const base = await serve("stream.test");
+  const res = await fetch(`${base}/d/stream.test/chat`, {
+    method: "POST",
+    body: JSON.stringify({ message: "How much is it?", stream: true }),
+  });
+  assert.equal(res.headers.get("content-type"), "text/event-stream");
+  const events = parseEvents(await res.text());
+  assert.deepEqual(events.map((e) => e.event), ["session", "token", "token", "done"]);
+  assert.deepEqual(
+    events.filter((e) => e.event === "token").map((e) => e.data.text),
+    ["Plans start ", "at $10."],
+  );
+  const done = events.at(-1)!.data;
+  assert.equal(done.sessionId, events[0].data.sessionId);
+  assert.ok(done.messageId);
+
+  const transcript = await (await fetch(`${base}/d/stream.test/sessions/${done.sessionId}`)).json();
+  assert.deepEqual(
+    transcript.messages.map((m: { text: string }) => m.text),
+    ["How much is it?", "Plans start at $10."],
+  );
+});
+
+test("closing a stream cancels the model request", { timeout: 5000 }, async () => {
+  const base = await serve("abandon.test");
+  const client = new AbortController();
+  const res = await fetch(`${base}/d/abandon.test/chat`, {
+    method: "POST",
+    body: JSON.stringify({ message: "hang", stream: true }),
+    signal: client.signal,
+  });
+  const reader = res.body!.getReader();
+  let received = "";
+  while (!received.includes("event: token")) received += new TextDecoder().decode((await reader.read()).value);
+  client.abort();
+  await upstreamClosed;
+});
+
+test("feedback counts against the session rate limit", async () => {
+  const base = await serve("rated.test", { rateLimit: { sessionBurst: 1 } });
+  const rate = () =>
+    fetch(`${base}/d/rated.test/feedback`, {
+      method: "POST",
+      body: JSON.stringify({ sessionId: "s-1", messageId: "m-1", rating: "down" }),
+    });
+  assert.equal((await rate()).status, 404);
+  assert.equal((await rate()).status, 429);
+});
@@ -0,0 +1,56 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { chunkMarkdown } from "../src/chunking";
+
+const filler = (word: string, n: number) => Array.from({ length: n }, () => word).join(" ");
+
+test("sections splits on ## headers", () => {
+  const { chunks } = chunkMarkdown(`## One\n${filler("alpha", 20)}\n\n## Two\n${filler("beta", 20)}`);
+  assert.deepEqual(
+    chunks.map((c) => c.title),
+    ["One", "Two"],
+  );
+});
+
+test("sections drops chunks shorter than minChars", () => {
+  const report = chunkMarkdown(`## Short\ntiny\n\n## Long\n${filler("gamma", 20)}`);
+  assert.deepEqual(
+    report.chunks.map((c) => c.title),
+    ["Long"],
+  );
+  assert.equal(report.dropped[0].title, "Short");
+});
+
+test("sections windows and reports sections too long to embed whole", () => {
+  const long = filler("delta", 2000); // 11999 chars
+  const report = chunkMarkdown(`## Normal\n${filler("alpha", 500)}\n\n## Huge\n${long}`);
+  // Under the embedding limit: kept whole, even above maxChars
+  assert.equal(report.chunks[0].title, "Normal");
+  assert.equal(report.chunks[0].text.length, 2999);
+  assert.equal(report.split.length, 1);
+  assert.equal(report.split[0].title, "Huge");
+  const parts = report.chunks.slice(1);
+  assert.equal(parts.length, report.split[0].parts);
+  assert.ok(parts.every((c) => c.title.startsWith("Huge (") && c.text.length <= 2000));
+});
+
+test("size windows overlap and cover the text", () => {
+  const text = filler("word", 500);
+  const { chunks } = chunkMarkdown(text, { strategy: "size", maxChars: 500, overlap: 100 });
+  assert.ok(chunks.length > 1);
+  assert.ok(chunks.every((c) => c.text.length <= 500));
+});
+
+test("structure never cuts through a code block that fits", () => {
+  const code = "```\n" + filler("x = 1;", 40) + "\n```";
+  const md = `# Guide\n\n${filler("intro", 60)}\n\n${code}\n\n${filler("outro", 60)}`;
+  const { chunks } = chunkMarkdown(md, { strategy: "structure", maxChars: 400 });
+  assert.ok(chunks.some((c) => c.text.includes(code)));
+});
+
+test("windows move forward even when overlap is as large as the window", () => {
+  // Regression: overlap >= maxChars advanced one character per chunk
+  const text = filler("lorem", 1800);
+  const { chunks } = chunkMarkdown(text, { strategy: "size", maxChars: 500, overlap: 600 });
+  assert.ok(chunks.length < (text.length / 500) * 4, `${chunks.length} chunks`);
+});
@@ -0,0 +1,17 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { citedBlocks, type Citation } from "../src/rag";
+
+const blocks: Citation[] = [1, 2, 3].map((n) => ({ n, id: `d${n}`, title: `Doc ${n}`, snippet: "" }));
+
+test("cited blocks come back in block order, once each", () => {
+  const cited = citedBlocks("Yes [3]. Also [1, 3] and [1][2].", blocks);
+  assert.deepEqual(
+    cited.map((c) => c.n),
+    [1, 2, 3],
+  );
+});
+
+test("unknown citation numbers are ignored", () => {
+  assert.deepEqual(citedBlocks("See [7].", blocks), []);
+});
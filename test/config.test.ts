@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { domainSettingsSchema, mergeSettings, NEW_DOMAIN_SEARCH_MODE, parseDomainConfig } from "../src/config";
+
+const base = { domain: "d", systemPrompt: "s", createdAt: "" };
+
+test("configs without a searchMode keep vector search", () => {
+  // Written before hybrid search existed: switching them silently would change answers
+  assert.equal(parseDomainConfig(base, "d").searchMode, "vector");
+  assert.equal(parseDomainConfig({ ...base, searchMode: NEW_DOMAIN_SEARCH_MODE }, "d").searchMode, "hybrid");
+});
+
+test("validation errors list every problem", () => {
+  assert.throws(
+    () => parseDomainConfig({ ...base, topK: 0, temperature: 5 }, "d"),
+    /Invalid config for domain "d": temperature: .*; topK: /,
+  );
+});
+
+test("chunking overlap must be smaller than maxChars", () => {
+  assert.throws(() => parseDomainConfig({ ...base, chunking: { maxChars: 500, overlap: 500 } }, "d"), /chunking\.overlap/);
+  assert.throws(() => parseDomainConfig({ ...base, chunking: { overlap: 5000 } }, "d"), /chunking\.overlap/);
+  assert.equal(parseDomainConfig({ ...base, chunking: { maxChars: 500, overlap: 100 } }, "d").chunking.overlap, 100);
+});
+
+test("a nested settings patch keeps the section's other fields", () => {
+  const saved = parseDomainConfig(
+    {
+      ...base,
+      fallback: {
+        enabled: true,
+        handoff: { webhookUrl: "https://example.com/hook", secret: "0123456789abcdef" },
+      },
+      rateLimit: { ipPerMinute: 5, dailyPerIp: null },
+      chunking: { strategy: "size", maxChars: 3000 },
+      embedding: { provider: "openai", model: "text-embedding-3-large" },
+    },
+    "d",
+  );
+  // As the tools receive it: no defaults filled in for omitted keys
+  const patch = domainSettingsSchema.parse({
+    fallback: { minConfidence: 0.5 },
+    rateLimit: { ipBurst: 3 },
+    chunking: { overlap: 2500 },
+    embedding: { provider: "gemini" },
+  });
+  assert.deepEqual(patch.fallback, { minConfidence: 0.5 });
+
+  const next = parseDomainConfig(mergeSettings(saved, patch), "d");
+  assert.equal(next.fallback.enabled, true);
+  assert.equal(next.fallback.minConfidence, 0.5);
+  assert.equal(next.fallback.handoff.webhookUrl, "https://example.com/hook");
+  assert.deepEqual(next.rateLimit, { ...saved.rateLimit, ipBurst: 3 });
+  assert.deepEqual(next.chunking, { strategy: "size", maxChars: 3000, overlap: 2500 });
+  // Not a section: replaced as a whole
+  assert.deepEqual(next.embedding, { provider: "gemini" });
+});
+
+test("temperatures above 1 are rejected for Anthropic only", () => {
+  assert.equal(parseDomainConfig({ ...base, provider: "openai", temperature: 1.5 }, "d").temperature, 1.5);
+  assert.throws(
+    () => parseDomainConfig({ ...base, provider: "anthropic", temperature: 1.5 }, "d"),
+    /temperature: Anthropic accepts at most 1/,
+  );
+});
@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generateEmbeddings } from "../src/embeddings";
+import { localServer } from "./helpers";
+
+const model = { provider: "openai-compatible" as const, model: "test" };
+
+/** An embeddings endpoint that answers with `statuses` in turn, then succeeds */
+async function flakyServer(statuses: Array<{ status: number; retryAfter?: string }>) {
+  const seen: number[] = [];
+  const server = await localServer((req, res) => {
+    req.resume();
+    req.on("end", () => {
+      seen.push(Date.now());
+      const next = statuses.shift();
+      if (next) {
+        if (next.retryAfter) res.setHeader("Retry-After", next.retryAfter);
+        res.writeHead(next.status).end("busy");
+        return;
+      }
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ data: [{ index: 0, embedding: [1, 0] }] }));
+    });
+  });
+  process.env.EMBEDDING_BASE_URL = `http://127.0.0.1:${server.port}/v1`;
+  return { ...server, seen };
+}
+
+test("rate limits are retried after the Retry-After delay", async () => {
+  const server = await flakyServer([{ status: 429, retryAfter: "1" }, { status: 503, retryAfter: "0" }]);
+  try {
+    const [embedding] = await generateEmbeddings(["hello"], { model });
+    assert.deepEqual(embedding, [1, 0]);
+    assert.equal(server.seen.length, 3);
+    assert.ok(server.seen[1] - server.seen[0] >= 900, "waited for Retry-After");
+  } finally {
+    await server.close();
+  }
+});
+
+test("client errors fail the batch without retrying", async () => {
+  const server = await flakyServer([{ status: 400 }]);
+  try {
+    const [result] = await generateEmbeddings(["hello"], { model });
+    assert.ok(result instanceof Error);
+    assert.match(result.message, /OpenAI-compatible embeddings failed: busy/);
+    assert.equal(server.seen.length, 1);
+  } finally {
+    await server.close();
+  }
+});
@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { loadFeedback, saveFeedback, summarizeFeedback, type FeedbackRecord } from "../src/feedback";
+import { useTempDataDir } from "./helpers";
+
+const dataDir = useTempDataDir();
+
+function rating(messageId: string, rating: FeedbackRecord["rating"], at: string, sources: string[]): FeedbackRecord {
+  return { at, sessionId: "s-1", messageId, rating, query: `Question ${messageId}`, reply: "Answer", sources };
+}
+
+test("the latest rating for a message wins", () => {
+  saveFeedback("rated.test", rating("m-1", "down", "2026-01-01T10:00:00Z", ["doc-1"]));
+  saveFeedback("rated.test", rating("m-2", "down", "2026-01-01T11:00:00Z", ["doc-2"]));
+  saveFeedback("rated.test", rating("m-1", "up", "2026-01-01T12:00:00Z", ["doc-1"]));
+
+  const records = loadFeedback("rated.test");
+  assert.deepEqual(
+    records.map((r) => [r.messageId, r.rating]),
+    [
+      ["m-2", "down"],
+      ["m-1", "up"],
+    ],
+  );
+
+  const summary = summarizeFeedback(records);
+  assert.equal(summary.up, 1);
+  assert.equal(summary.down, 1);
+  assert.deepEqual(summary.worst.map((r) => r.messageId), ["m-2"]);
+  assert.deepEqual(summary.sources, [{ id: "doc-2", up: 0, down: 1 }]);
+});
+
+test("ratings are filtered by time range", () => {
+  saveFeedback("range.test", rating("m-1", "up", "2026-01-01T10:00:00Z", []));
+  saveFeedback("range.test", rating("m-2", "down", "2026-01-03T10:00:00Z", []));
+
+  const records = loadFeedback("range.test", {
+    since: new Date("2026-01-02T00:00:00Z"),
+    until: new Date("2026-01-04T00:00:00Z"),
+  });
+  assert.deepEqual(records.map((r) => r.messageId), ["m-2"]);
+});
+
+test("a torn line is skipped", () => {
+  saveFeedback("torn.test", rating("m-1", "up", "2026-01-01T10:00:00Z", []));
+  fs.appendFileSync(path.join(dataDir, "domains", "torn.test", "feedback", "ratings.jsonl"), '{"at":"2026-');
+  assert.deepEqual(loadFeedback("torn.test").map((r) => r.messageId), ["m-1"]);
+});
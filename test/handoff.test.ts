@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as http from "http";
+import { createHmac } from "crypto";
+import { deliverWebhook, signWebhook, type HandoffPayload } from "../src/handoff";
+import { localServer } from "./helpers";
+
+const SECRET = "test-webhook-secret";
+
+const payload: HandoffPayload = {
+  event: "handoff",
+  id: "delivery-1",
+  domain: "shop.test",
+  sessionId: "s-1",
+  email: "visitor@example.com",
+  createdAt: "2026-01-01T10:00:00.000Z",
+  transcript: [{ role: "user", text: "Can I talk to someone?", at: "2026-01-01T10:00:00.000Z" }],
+};
+
+/** A webhook answering each attempt with the next status, recording what it received */
+async function webhook(statuses: number[]) {
+  const received: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+  const server = await localServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(statuses[received.length - 1] ?? 200);
+      res.end();
+    });
+  });
+  return { ...server, url: `http://127.0.0.1:${server.port}/hook`, received };
+}
+
+test("signWebhook is an HMAC-SHA256 of the timestamp and body", () => {
+  const expected = createHmac("sha256", SECRET).update('1767261600.{"a":1}').digest("hex");
+  assert.equal(signWebhook(SECRET, 1767261600, '{"a":1}'), `sha256=${expected}`);
+  assert.notEqual(signWebhook(SECRET, 1767261601, '{"a":1}'), `sha256=${expected}`);
+});
+
+test("each attempt is signed, and transient failures are retried", async () => {
+  const hook = await webhook([503, 429, 408, 200]);
+  try {
+    const outcome = await deliverWebhook(hook.url, SECRET, payload, { backoffMs: 1 });
+    assert.deepEqual(outcome, { status: "delivered", attempts: 4, httpStatus: 200 });
+    for (const { headers, body } of hook.received) {
+      assert.equal(body, JSON.stringify(payload));
+      assert.equal(headers["x-ragchat-delivery"], "delivery-1");
+      assert.equal(
+        headers["x-ragchat-signature"],
+        signWebhook(SECRET, Number(headers["x-ragchat-timestamp"]), body),
+      );
+    }
+  } finally {
+    await hook.close();
+  }
+});
+
+test("other client errors are not retried", async () => {
+  const hook = await webhook([404]);
+  try {
+    const outcome = await deliverWebhook(hook.url, SECRET, payload, { backoffMs: 1 });
+    assert.deepEqual(outcome, { status: "failed", attempts: 1, httpStatus: 404, error: "HTTP 404" });
+    assert.equal(hook.received.length, 1);
+  } finally {
+    await hook.close();
+  }
+});
+
+test("delivery gives up after the last attempt", async () => {
+  const hook = await webhook([500, 502, 503]);
+  try {
+    const outcome = await deliverWebhook(hook.url, SECRET, payload, { attempts: 3, backoffMs: 1 });
+    assert.deepEqual(outcome, { status: "failed", attempts: 3, httpStatus: 503, error: "HTTP 503" });
+  } finally {
+    await hook.close();
+  }
+});
+
+test("network errors are retried", async () => {
+  const hook = await webhook([]);
+  await hook.close();
+  const outcome = await deliverWebhook(hook.url, SECRET, payload, { attempts: 2, backoffMs: 1 });
+  assert.equal(outcome.status, "failed");
+  assert.equal(outcome.attempts, 2);
+  assert.equal(outcome.httpStatus, undefined);
+  assert.ok(outcome.error);
+});
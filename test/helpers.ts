@@ -0,0 +1,115 @@
+/**
+ * Shared test setup: a throwaway data directory and small fixture domains.
+ */
+
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { saveDomainConfig, saveVectors } from "../src/vector-store";
+import type { DomainConfigInput } from "../src/config";
+
+/** Point the store at a fresh temporary data directory */
+export function useTempDataDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ragchat-test-"));
+  process.env.RAGCHAT_DATA_DIR = dir;
+  return dir;
+}
+
+/** Create a domain with documents whose embeddings are given directly */
+export function createDomain(
+  domain: string,
+  docs: Array<{ title: string; content: string; embedding: number[]; source?: string }>,
+  config: Partial<DomainConfigInput> = {},
+): void {
+  saveDomainConfig(domain, {
+    domain,
+    systemPrompt: "You are a test assistant.",
+    createdAt: new Date().toISOString(),
+    ...config,
+  });
+  const createdAt = new Date().toISOString();
+  saveVectors(
+    domain,
+    docs.map((d, i) => ({ id: `${domain}-${i}`, createdAt, ...d })),
+    { provider: "openai-compatible", model: "test" },
+  );
+}
+
+/** A local HTTP server on a free port. close() also drops open connections. */
+export async function localServer(
+  handle: http.RequestListener,
+): Promise<{ port: number; close: () => Promise<void> }> {
+  const server = http.createServer(handle);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as { port: number };
+  return {
+    port,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      }),
+  };
+}
+
+/** Read a request body as JSON */
+function readJson(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(JSON.parse(body)));
+  });
+}
+
+/**
+ * Serve an OpenAI-compatible /embeddings endpoint on localhost and point
+ * EMBEDDING_BASE_URL / EMBEDDING_MODEL at it. `onRequest` runs before each
+ * response is sent. Call close() when done.
+ */
+export async function useEmbeddingServer(
+  embed: (text: string) => number[],
+  onRequest?: (texts: string[]) => void,
+): Promise<{ close: () => Promise<void> }> {
+  const server = await localServer(async (req, res) => {
+    const { input } = (await readJson(req)) as { input: string[] };
+    onRequest?.(input);
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify({ data: input.map((text, index) => ({ index, embedding: embed(text) })) }));
+  });
+  process.env.EMBEDDING_BASE_URL = `http://127.0.0.1:${server.port}/v1`;
+  process.env.EMBEDDING_MODEL = "test";
+  return server;
+}
+
+/**
+ * Serve an OpenAI-compatible /chat/completions endpoint on localhost and
+ * point LLM_PROVIDER / LLM_BASE_URL / LLM_MODEL at it. `handle` gets the
+ * parsed request body and writes the response. Call close() when done.
+ */
+export async function useLLMServer(
+  handle: (body: any, req: http.IncomingMessage, res: http.ServerResponse) => void,
+): Promise<{ close: () => Promise<void> }> {
+  const server = await localServer(async (req, res) => handle(await readJson(req), req, res));
+  process.env.LLM_PROVIDER = "openai-compatible";
+  process.env.LLM_BASE_URL = `http://127.0.0.1:${server.port}/v1`;
+  process.env.LLM_MODEL = "test";
+  return server;
+}
+
+/** One OpenAI-style streaming chunk, as an SSE line */
+export function completionChunk(text: string): string {
+  return `data: ${JSON.stringify({ choices: [{ delta: { content: text } }] })}\n\n`;
+}
+
+/** Parse a server-sent event stream into its events */
+export function parseEvents(body: string): Array<{ event: string; data: any }> {
+  return body
+    .split("\n\n")
+    .filter((frame) => frame.trim())
+    .map((frame) => {
+      const event = /^event: (.*)$/m.exec(frame)?.[1] ?? "message";
+      const data = /^data: (.*)$/m.exec(frame)?.[1];
+      return { event, data: data ? JSON.parse(data) : null };
+    });
+}
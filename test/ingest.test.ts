@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { coversFile, ingestPath } from "../src/ingest";
+
+function docsTree(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "ragchat-ingest-"));
+  for (const [name, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(root, name)), { recursive: true });
+    fs.writeFileSync(path.join(root, name), content);
+  }
+  return root;
+}
+
+test("ingestPath skips JSON unless included", () => {
+  const root = docsTree({
+    "guide.md": "## Setup\nInstall the package and run the setup command.",
+    "package.json": '{"name": "docs"}',
+    "faq.json": '[{"question": "Is there a free plan?", "answer": "Yes, for up to three seats."}]',
+  });
+  assert.deepEqual(ingestPath(root).files.map((f) => path.basename(f)), ["guide.md"]);
+  const withFaq = ingestPath(root, { include: ["**/*.md", "faq.json"] });
+  assert.deepEqual(withFaq.files.map((f) => path.basename(f)), ["faq.json", "guide.md"]);
+});
+
+test("coversFile leaves unparseable and unmatched files out of the sync", () => {
+  const root = docsTree({
+    "guide.md": "## Setup\nInstall the package and run the setup command.",
+    "faq.json": "{ not json",
+  });
+  const ingest = ingestPath(root, { include: ["**/*.md", "**/*.json"] });
+  assert.equal(ingest.errors.length, 1);
+  assert.equal(coversFile(ingest, path.join(root, "guide.md")), true);
+  assert.equal(coversFile(ingest, path.join(root, "faq.json")), false);
+  // Deleted since the last ingest, but still matching: its documents go
+  assert.equal(coversFile(ingest, path.join(root, "old.md")), true);
+  assert.equal(coversFile(ingest, path.join(root, "data.csv")), false);
+  assert.equal(coversFile(ingest, path.join(path.dirname(root), "other.md")), false);
+});
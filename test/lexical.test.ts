@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildLexicalIndex, searchLexicalIndex, tokenize } from "../src/lexical";
+
+const docs = [
+  { id: "pricing", title: "Pricing", content: "Plans start at 10 dollars per month." },
+  { id: "errors", title: "Error codes", content: "ERR-404 means the page was not found." },
+  { id: "install", title: "Install", content: "Run npm install to get started." },
+];
+
+test("tokenize keeps compound tokens whole and split", () => {
+  assert.deepEqual(tokenize("See ERR-404."), ["see", "err-404", "err", "404"]);
+});
+
+test("search ranks documents sharing query terms", () => {
+  const index = buildLexicalIndex(docs);
+  const hits = searchLexicalIndex(index, "what does err-404 mean", 3);
+  assert.equal(hits[0].id, "errors");
+  assert.ok(hits.every((h) => h.score > 0));
+});
+
+test("search returns nothing without shared terms", () => {
+  assert.deepEqual(searchLexicalIndex(buildLexicalIndex(docs), "kubernetes", 3), []);
+});
+
+test("words named like Object.prototype members are ordinary terms", () => {
+  const index = buildLexicalIndex(docs);
+  // Regression: inherited "constructor" made scores NaN and dropped every hit
+  assert.deepEqual(
+    searchLexicalIndex(index, "constructor pricing", 3).map((h) => h.id),
+    ["pricing"],
+  );
+  const withWord = buildLexicalIndex([...docs, { id: "js", title: "Classes", content: "The constructor runs first." }]);
+  assert.equal(searchLexicalIndex(withWord, "constructor", 3)[0].id, "js");
+  // Indexes are stored as JSON and read back as ordinary objects
+  const reloaded = JSON.parse(JSON.stringify(withWord));
+  assert.deepEqual(searchLexicalIndex(reloaded, "constructor pricing", 3).map((h) => h.id).sort(), ["js", "pricing"]);
+});
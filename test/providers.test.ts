@@ -0,0 +1,84 @@
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { callLLM, resolveLLM } from "../src/llm";
+import { resolveEmbeddingModel } from "../src/embeddings";
+
+const PROVIDER_ENV = [
+  "LLM_PROVIDER",
+  "LLM_MODEL",
+  "LLM_BASE_URL",
+  "EMBEDDING_PROVIDER",
+  "EMBEDDING_MODEL",
+  "EMBEDDING_BASE_URL",
+  "OPENAI_API_KEY",
+  "ANTHROPIC_API_KEY",
+  "GEMINI_API_KEY",
+  "AWS_REGION",
+  "AWS_ACCESS_KEY_ID",
+];
+
+beforeEach(() => {
+  for (const name of PROVIDER_ENV) delete process.env[name];
+});
+
+test("the LLM provider is detected from the keys set", () => {
+  process.env.OPENAI_API_KEY = "sk-test";
+  assert.deepEqual(resolveLLM(), { provider: "openai", model: "gpt-4o-mini" });
+  process.env.ANTHROPIC_API_KEY = "sk-ant-test";
+  assert.equal(resolveLLM().provider, "anthropic");
+  process.env.LLM_BASE_URL = "http://localhost:11434/v1";
+  process.env.LLM_MODEL = "llama3";
+  assert.deepEqual(resolveLLM(), { provider: "openai-compatible", model: "llama3" });
+});
+
+test("LLM_PROVIDER and per-domain settings override detection", () => {
+  process.env.OPENAI_API_KEY = "sk-test";
+  process.env.LLM_PROVIDER = "gemini";
+  assert.deepEqual(resolveLLM(), { provider: "gemini", model: "gemini-2.0-flash" });
+  assert.deepEqual(resolveLLM({ provider: "anthropic", model: "claude-test" }), {
+    provider: "anthropic",
+    model: "claude-test",
+  });
+});
+
+test("unknown or missing LLM providers are errors", () => {
+  assert.throws(() => resolveLLM(), /No LLM provider configured/);
+  process.env.LLM_PROVIDER = "bedrock";
+  assert.throws(() => resolveLLM(), /Unknown LLM_PROVIDER "bedrock"/);
+});
+
+test("the embedding provider is detected from the keys set", () => {
+  process.env.AWS_REGION = "us-east-1";
+  assert.deepEqual(resolveEmbeddingModel(), { provider: "bedrock", model: "amazon.titan-embed-text-v2:0" });
+  process.env.GEMINI_API_KEY = "g-test";
+  assert.deepEqual(resolveEmbeddingModel(), { provider: "gemini", model: "text-embedding-004" });
+  process.env.OPENAI_API_KEY = "sk-test";
+  assert.deepEqual(resolveEmbeddingModel(), { provider: "openai", model: "text-embedding-3-small" });
+});
+
+test("EMBEDDING_MODEL only applies to the provider from the environment", () => {
+  process.env.EMBEDDING_BASE_URL = "http://localhost:11434/v1";
+  process.env.EMBEDDING_MODEL = "nomic-embed-text";
+  assert.deepEqual(resolveEmbeddingModel(), { provider: "openai-compatible", model: "nomic-embed-text" });
+  assert.deepEqual(resolveEmbeddingModel({ provider: "openai" }), {
+    provider: "openai",
+    model: "text-embedding-3-small",
+  });
+});
+
+test("unknown or incomplete embedding providers are errors", () => {
+  process.env.EMBEDDING_PROVIDER = "anthropic";
+  assert.throws(() => resolveEmbeddingModel(), /Unknown EMBEDDING_PROVIDER "anthropic"/);
+  process.env.EMBEDDING_PROVIDER = "openai-compatible";
+  assert.throws(() => resolveEmbeddingModel(), /needs EMBEDDING_BASE_URL/);
+});
+
+test("Anthropic gets the temperature clamped to what it accepts", async (t) => {
+  process.env.ANTHROPIC_API_KEY = "sk-ant-test";
+  const fetchMock = t.mock.method(globalThis, "fetch", async () =>
+    Response.json({ content: [{ text: "Hello" }] }),
+  );
+  assert.equal(await callLLM("system", [], "hi", { temperature: 1.5 }), "Hello");
+  const [, init] = fetchMock.mock.calls[0].arguments as [string, RequestInit];
+  assert.equal(JSON.parse(init.body as string).temperature, 1);
+});
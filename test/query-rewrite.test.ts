@@ -0,0 +1,56 @@
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import { planQuery } from "../src/query-rewrite";
+import type { ChatMessage } from "../src/llm";
+
+const history: ChatMessage[] = [
+  { role: "user", text: "Tell me about the Pro plan" },
+  { role: "assistant", text: "The Pro plan includes priority support." },
+];
+
+before(() => {
+  process.env.LLM_PROVIDER = "openai-compatible";
+  process.env.LLM_BASE_URL = "http://llm.test/v1";
+  process.env.LLM_MODEL = "test";
+});
+
+/** Answer every model request with `content` */
+function reply(content: string) {
+  return async () => Response.json({ choices: [{ message: { content } }] });
+}
+
+test("a follow-up is condensed and gets deduplicated variants", async (t) => {
+  t.mock.method(
+    globalThis,
+    "fetch",
+    reply('Sure: {"query": "Pro plan price", "variants": ["pro plan price", "Pro plan cost", "Pro plan cost", 3]}'),
+  );
+  const plan = await planQuery({ condense: true, variants: 2 }, "How much is it?", history, {});
+  assert.deepEqual(plan, { query: "Pro plan price", variants: ["Pro plan cost"], rewritten: true });
+});
+
+test("nothing is asked of the model when there is nothing to rewrite", async (t) => {
+  const fetchMock = t.mock.method(globalThis, "fetch", reply("{}"));
+  const plan = await planQuery({ condense: true, variants: 0 }, "How much is it?", [], {});
+  assert.deepEqual(plan, { query: "How much is it?", variants: [], rewritten: false });
+  assert.equal(fetchMock.mock.callCount(), 0);
+});
+
+test("a reply without JSON falls back to the message", async (t) => {
+  t.mock.method(globalThis, "fetch", reply("The Pro plan costs $20."));
+  const plan = await planQuery({ condense: true, variants: 2 }, "How much is it?", history, {});
+  assert.deepEqual(plan, {
+    query: "How much is it?",
+    variants: [],
+    rewritten: false,
+    note: "rewrite failed: no JSON in reply",
+  });
+});
+
+test("a failed model call falls back to the message", async (t) => {
+  t.mock.method(globalThis, "fetch", async () => new Response("overloaded", { status: 503 }));
+  const plan = await planQuery({ condense: true, variants: 0 }, "How much is it?", history, {});
+  assert.equal(plan.query, "How much is it?");
+  assert.equal(plan.rewritten, false);
+  assert.match(plan.note!, /^rewrite failed: OpenAI-compatible API error: overloaded/);
+});
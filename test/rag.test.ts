@@ -0,0 +1,45 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { buildContext } from "../src/rag";
+import { loadDomainConfig } from "../src/vector-store";
+import { createDomain, useEmbeddingServer, useTempDataDir } from "./helpers";
+
+useTempDataDir();
+let server: Awaited<ReturnType<typeof useEmbeddingServer>>;
+// Queries about refunds point one way, everything else the other
+before(async () => (server = await useEmbeddingServer((text) => (/refund/i.test(text) ? [1, 0.2] : [0, 1]))));
+after(() => server.close());
+
+createDomain(
+  "fallback.test",
+  [
+    { title: "Refunds", content: "Refunds are issued within 14 days of purchase.", embedding: [1, 0] },
+    { title: "Shipping", content: "Orders ship within two business days.", embedding: [1, -0.3] },
+  ],
+  { searchMode: "hybrid", minScore: 0.5, fallback: { enabled: true } },
+);
+const config = loadDomainConfig("fallback.test")!;
+
+test("hybrid search answers when a document is similar enough", async () => {
+  const context = await buildContext("fallback.test", config, "How do refunds work?");
+  assert.equal(context.path, "answer");
+  assert.equal(context.miss, false);
+  assert.ok(context.confidence > 0.9);
+});
+
+test("keyword-only hybrid matches fall back instead of answering", async () => {
+  // Shares "orders" and "ship" with a document, but no vector match above minScore
+  const context = await buildContext("fallback.test", config, "Do orders ship to the moon?");
+  assert.ok(context.results.length > 0);
+  assert.equal(context.confidence, 0);
+  assert.equal(context.miss, true);
+  assert.equal(context.path, "fallback");
+});
+
+test("fallback.minConfidence applies to vector similarity, not the fused rank", async () => {
+  const strict = { ...config, fallback: { ...config.fallback, minConfidence: 0.99 } };
+  const context = await buildContext("fallback.test", strict, "What about refunds?");
+  // Ranked first by both searches (fused score 1), yet below the similarity bar
+  assert.equal(context.results[0].score, 1);
+  assert.equal(context.path, "fallback");
+});
@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  appendExchange,
+  createSession,
+  findExchange,
+  loadSession,
+  pruneSessions,
+  sessionHistory,
+} from "../src/sessions";
+import { useTempDataDir } from "./helpers";
+
+const dataDir = useTempDataDir();
+const TTL = 60;
+
+function sessionFile(domain: string, id: string): string {
+  return path.join(dataDir, "domains", domain, "sessions", `${id}.json`);
+}
+
+/** Move a session's last activity `minutes` into the past */
+function age(domain: string, id: string, minutes: number): void {
+  const file = sessionFile(domain, id);
+  const then = new Date(Date.now() - minutes * 60_000);
+  const session = JSON.parse(fs.readFileSync(file, "utf-8"));
+  fs.writeFileSync(file, JSON.stringify({ ...session, updatedAt: then.toISOString() }));
+  fs.utimesSync(file, then, then);
+}
+
+test("a session resumes with its history", () => {
+  const session = createSession();
+  const messageId = appendExchange("resume.test", session, "Do you ship abroad?", "Yes, to the EU.", {
+    sources: ["doc-1"],
+    citations: [],
+  });
+  appendExchange("resume.test", session, "How long does it take?", "About a week.", { sources: [], citations: [] });
+
+  const resumed = loadSession("resume.test", session.id, TTL)!;
+  assert.deepEqual(sessionHistory(resumed), [
+    { role: "user", text: "Do you ship abroad?" },
+    { role: "assistant", text: "Yes, to the EU." },
+    { role: "user", text: "How long does it take?" },
+    { role: "assistant", text: "About a week." },
+  ]);
+  assert.equal(findExchange(resumed, messageId)!.query, "Do you ship abroad?");
+});
+
+test("sessions expire after the TTL of inactivity", () => {
+  const session = createSession();
+  appendExchange("ttl.test", session, "Hi", "Hello!", { sources: [], citations: [] });
+  age("ttl.test", session.id, TTL - 1);
+  assert.ok(loadSession("ttl.test", session.id, TTL));
+
+  age("ttl.test", session.id, TTL + 1);
+  assert.equal(loadSession("ttl.test", session.id, TTL), null);
+  assert.equal(fs.existsSync(sessionFile("ttl.test", session.id)), false);
+});
+
+test("pruneSessions removes only expired sessions", () => {
+  const fresh = createSession();
+  const stale = createSession();
+  for (const s of [fresh, stale]) appendExchange("prune.test", s, "Hi", "Hello!", { sources: [], citations: [] });
+  age("prune.test", stale.id, TTL + 1);
+
+  assert.equal(pruneSessions("prune.test", TTL), 1);
+  assert.ok(loadSession("prune.test", fresh.id, TTL));
+});
+
+test("ids that aren't session ids are never read", () => {
+  assert.equal(loadSession("resume.test", "../config", TTL), null);
+});
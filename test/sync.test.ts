@@ -0,0 +1,105 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { addDocument, loadVectors, storedEmbeddingModel } from "../src/vector-store";
+import { reembedDocuments, syncDocuments } from "../src/sync";
+import { createDomain, localServer, useEmbeddingServer, useTempDataDir } from "./helpers";
+
+useTempDataDir();
+
+test("syncDocuments keeps documents written while embedding", async () => {
+  createDomain("sync", [{ title: "Old", content: "old section", embedding: [1, 0], source: "docs/a.md" }]);
+  let upserted = false;
+  const server = await useEmbeddingServer(
+    () => [0, 1],
+    () => {
+      if (upserted) return;
+      upserted = true;
+      addDocument("sync", {
+        id: "sync-manual",
+        title: "Manual",
+        content: "added by hand",
+        embedding: [1, 1],
+        createdAt: new Date().toISOString(),
+      });
+    },
+  );
+  try {
+    const report = await syncDocuments(
+      "sync",
+      [{ title: "New", text: "new section", source: "docs/a.md" }],
+      { scope: (d) => d.source === "docs/a.md" },
+    );
+    assert.ok(upserted);
+    assert.equal(report.added.length, 1);
+    assert.deepEqual(report.removed, ["sync-0"]);
+    const titles = loadVectors("sync").map((d) => d.title).sort();
+    assert.deepEqual(titles, ["Manual", "New"]);
+  } finally {
+    await server.close();
+  }
+});
+
+test("syncDocuments lets a concurrent write to a synced document win", async () => {
+  createDomain("sync-race", [{ title: "Keep", content: "kept section", embedding: [1, 0] }]);
+  const server = await useEmbeddingServer(
+    () => [0, 1],
+    () => {
+      const [doc] = loadVectors("sync-race");
+      addDocument("sync-race", { ...doc, content: "edited meanwhile", updatedAt: new Date().toISOString() });
+    },
+  );
+  try {
+    const report = await syncDocuments("sync-race", [{ title: "Added", text: "another section" }]);
+    assert.deepEqual(report.removed, []);
+    const docs = loadVectors("sync-race");
+    assert.deepEqual(docs.map((d) => d.content).sort(), ["another section", "edited meanwhile"]);
+  } finally {
+    await server.close();
+  }
+});
+
+test("reembedDocuments switches a domain to another model", async () => {
+  createDomain("switch", [
+    { title: "A", content: "alpha", embedding: [1, 0] },
+    { title: "B", content: "beta", embedding: [0, 1] },
+  ]);
+  const server = await useEmbeddingServer((text) => (text === "alpha" ? [1, 0, 0] : [0, 0, 1]));
+  try {
+    const report = await reembedDocuments("switch", { provider: "openai-compatible", model: "test-v2" });
+    assert.deepEqual(report, {
+      from: { provider: "openai-compatible", model: "test", dim: 2 },
+      to: { provider: "openai-compatible", model: "test-v2", dim: 3 },
+      documents: 2,
+      caughtUp: 0,
+    });
+    assert.deepEqual(storedEmbeddingModel("switch"), report.to);
+    assert.deepEqual(
+      loadVectors("switch").map((d) => d.embedding),
+      [
+        [1, 0, 0],
+        [0, 0, 1],
+      ],
+    );
+  } finally {
+    await server.close();
+  }
+});
+
+test("a failed re-embed leaves the domain as it was", async () => {
+  createDomain("unchanged", [{ title: "A", content: "alpha", embedding: [1, 0] }]);
+  const server = await localServer((_req, res) => {
+    res.writeHead(400, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "unknown model" }));
+  });
+  process.env.EMBEDDING_BASE_URL = `http://127.0.0.1:${server.port}/v1`;
+  try {
+    await assert.rejects(
+      reembedDocuments("unchanged", { provider: "openai-compatible", model: "test-v2" }),
+      /Re-embedding failed/,
+    );
+    assert.deepEqual(storedEmbeddingModel("unchanged"), { provider: "openai-compatible", model: "test", dim: 2 });
+    assert.deepEqual(loadVectors("unchanged")[0].embedding, [1, 0]);
+  } finally {
+    await server.close();
+  }
+});
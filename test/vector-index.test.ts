@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildHnsw,
+  buildMatrix,
+  deserializeHnsw,
+  exactSearch,
+  searchHnsw,
+  serializeHnsw,
+  unitVector,
+} from "../src/vector-index";
+
+/** Deterministic pseudo-random vectors */
+function vectors(count: number, dim: number): number[][] {
+  let seed = 7;
+  const next = () => ((seed = (seed * 16807) % 2147483647) / 2147483647) * 2 - 1;
+  return Array.from({ length: count }, () => Array.from({ length: dim }, next));
+}
+
+test("exact search ranks by cosine similarity and applies minScore", () => {
+  const matrix = buildMatrix([[1, 0], [0, 1], [1, 1]], 2);
+  const hits = exactSearch(matrix, unitVector([1, 0.1]), 3, 0.5);
+  assert.deepEqual(
+    hits.map((h) => h.row),
+    [0, 2],
+  );
+});
+
+test("HNSW finds the exact nearest neighbors on a small set", () => {
+  const rows = vectors(300, 16);
+  const matrix = buildMatrix(rows, 16);
+  const index = buildHnsw(matrix);
+  let found = 0;
+  for (const q of rows.slice(0, 20)) {
+    const query = unitVector(q);
+    const exact = exactSearch(matrix, query, 5, -1).map((h) => h.row);
+    const approx = searchHnsw(matrix, index, query, 5, 64).map((h) => h.row);
+    found += approx.filter((r) => exact.includes(r)).length;
+  }
+  assert.ok(found / 100 >= 0.9, `recall ${found / 100}`);
+});
+
+test("serialized indexes round-trip and reject stale generations", () => {
+  const matrix = buildMatrix(vectors(50, 8), 8);
+  const index = buildHnsw(matrix);
+  const buf = serializeHnsw(index, 3);
+  assert.deepEqual(deserializeHnsw(buf, 3, 50), index);
+  assert.equal(deserializeHnsw(buf, 4, 50), null);
+});
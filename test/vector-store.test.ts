@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  assertEmbeddingModel,
+  EmbeddingMismatchError,
+  listDomains,
+  searchByEmbedding,
+} from "../src/vector-store";
+import { createDomain, useTempDataDir } from "./helpers";
+
+const dataDir = useTempDataDir();
+
+test("listDomains reports a domain with an invalid config instead of throwing", () => {
+  createDomain("good.test", [{ title: "A", content: "alpha", embedding: [1, 0] }]);
+  createDomain("bad.test", [{ title: "B", content: "beta", embedding: [0, 1] }]);
+  fs.writeFileSync(
+    path.join(dataDir, "domains", "bad.test", "config.json"),
+    JSON.stringify({ domain: "bad.test", systemPrompt: "s", createdAt: "", temperature: 9 }),
+  );
+
+  const domains = listDomains().sort((a, b) => a.domain.localeCompare(b.domain));
+  assert.deepEqual(
+    domains.map((d) => [d.domain, d.documentCount, !!d.error]),
+    [
+      ["bad.test", 0, true],
+      ["good.test", 1, false],
+    ],
+  );
+  assert.match(domains[0].error!, /temperature/);
+});
+
+test("a domain refuses queries from another embedding model", () => {
+  createDomain("pinned.test", [{ title: "A", content: "alpha", embedding: [1, 0] }]);
+  assert.doesNotThrow(() => assertEmbeddingModel("pinned.test", { provider: "openai-compatible", model: "test" }));
+  assert.throws(
+    () => assertEmbeddingModel("pinned.test", { provider: "openai", model: "text-embedding-3-small" }),
+    (err: Error) => err instanceof EmbeddingMismatchError && /embedded with openai-compatible \/ test/.test(err.message),
+  );
+  assert.throws(
+    () => searchByEmbedding("pinned.test", [1, 0, 0]),
+    (err: Error) => err instanceof EmbeddingMismatchError && /3 dimensions, but "pinned.test" stores 2/.test(err.message),
+  );
+  assert.equal(searchByEmbedding("pinned.test", [1, 0])[0].title, "A");
+});
@@ -0,0 +1,34 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_WIDGET_STRINGS, widgetCss, widgetEmbed, widgetScript, widgetStrings } from "../src/widget";
+
+test("custom CSS variables are normalized and applied", () => {
+  const css = widgetCss("light", "#ff0000", { bg: "#fff", "--rc-font": "Inter, sans-serif" });
+  assert.match(css, /--rc-bg:#fff/);
+  assert.match(css, /--rc-font:Inter, sans-serif/);
+});
+
+test("CSS values that could escape the rule are rejected", () => {
+  assert.throws(() => widgetCss("dark", "#000", { bg: "red;}body{display:none" }));
+  assert.throws(() => widgetCss("dark", "red;}", {}));
+  assert.throws(() => widgetCss("dark", "#000", { "bad name": "1px" }));
+});
+
+test("strings merge over the defaults and unknown keys are rejected", () => {
+  const strings = widgetStrings({ send: "Envoyer" });
+  assert.equal(strings.send, "Envoyer");
+  assert.equal(strings.placeholder, DEFAULT_WIDGET_STRINGS.placeholder);
+  assert.throws(() => widgetStrings({ nope: "x" }));
+});
+
+test("embed attributes are escaped", () => {
+  const html = widgetEmbed("https://chat.example.com/", 'a"b', { publishableKey: "pk_<x>" });
+  assert.match(html, /src="https:\/\/chat\.example\.com\/widget\.js"/);
+  assert.match(html, /domain="a&quot;b"/);
+  assert.match(html, /key="pk_&lt;x&gt;"/);
+});
+
+test("the widget script parses", () => {
+  // Compiled, not run: catches escaping slips in the template it is built from
+  assert.doesNotThrow(() => new Function(widgetScript()));
+});